@@ -0,0 +1,39 @@
+import {IEntity} from "./entity.spec";
+import ISystem, {TSystemData} from "./system.spec";
+import {TObjectProto} from "./_.spec";
+import {TComponentAccess} from "./queue.spec";
+
+/**
+ * Group of entities, which all have the same set of components
+ */
+export interface IArchetype {
+    /**
+     * Component types, which are shared by all entities of this archetype
+     */
+    readonly components: ReadonlySet<TObjectProto>
+
+    /**
+     * Entities, which currently belong to this archetype
+     */
+    readonly entities: Set<IEntity>
+
+    /**
+     * Unique identifier of the component combination
+     */
+    readonly key: string
+
+    /**
+     * Check if a system can use the entities of this archetype.
+     * The result is evaluated once and then cached.
+     * @param system
+     */
+    canBeUsedBy(system: ISystem<TSystemData>): boolean
+
+    /**
+     * Check if the entities of this archetype match a queue for components
+     * @param query
+     */
+    matchesQueue<C extends Object, T extends TComponentAccess<C>>(query: T[]): boolean
+}
+
+export default IArchetype;
@@ -0,0 +1,39 @@
+import {expect} from 'chai';
+import {Archetype} from "./archetype";
+import {Entity} from "./entity";
+import {Read, ReadEntity, With, Without} from "./queue.spec";
+import {WorldBuilder} from "./world-builder";
+import {C1, C2} from "./tests/components";
+
+describe('Test Archetype', () => {
+    it('keyOf() ignores the order of components', () => {
+        expect(Archetype.keyOf([C1, C2])).eq(Archetype.keyOf([C2, C1]));
+        expect(Archetype.keyOf([C1])).not.eq(Archetype.keyOf([C2]));
+    });
+
+    it('matchesQueue()', () => {
+        const archetype = new Archetype([C1]);
+
+        expect(archetype.matchesQueue([ReadEntity()])).eq(true);
+        expect(archetype.matchesQueue([Read(C1)])).eq(true);
+        expect(archetype.matchesQueue([With(C1), Without(C2)])).eq(true);
+        expect(archetype.matchesQueue([With(C2)])).eq(false);
+        expect(archetype.matchesQueue([Without(C1)])).eq(false);
+    });
+
+    it('Entities move between archetypes', () => {
+        const world = new WorldBuilder().build();
+        const entity = new Entity().addComponent(new C1());
+
+        world.addEntity(entity);
+        expect(Array.from(world.getEntities([With(C1), Without(C2)]))).deep.eq([entity]);
+
+        entity.addComponent(new C2());
+        expect(Array.from(world.getEntities([With(C1), Without(C2)]))).deep.eq([]);
+        expect(Array.from(world.getEntities([With(C1), With(C2)]))).deep.eq([entity]);
+
+        entity.removeComponent(entity.getComponent(C1) as C1);
+        expect(Array.from(world.getEntities([With(C1)]))).deep.eq([]);
+        expect(Array.from(world.getEntities([With(C2)]))).deep.eq([entity]);
+    });
+});
@@ -0,0 +1,82 @@
+import IArchetype from "./archetype.spec";
+import IEntity from "./entity.spec";
+import ISystem, {TSystemData} from "./system.spec";
+import {TObjectProto} from "./_.spec";
+import {access, EAccess, TComponentAccess} from "./queue.spec";
+
+export * from './archetype.spec';
+
+const componentTypeIds: Map<TObjectProto, number> = new Map();
+
+export class Archetype implements IArchetype {
+    readonly components: ReadonlySet<TObjectProto>;
+    readonly entities: Set<IEntity> = new Set();
+    readonly key: string;
+    protected systemUsage: Map<ISystem<TSystemData>, boolean> = new Map();
+
+    static getComponentTypes(entity: IEntity): TObjectProto[] {
+        return Array.from(entity.getComponents()).map(component => component.constructor as TObjectProto);
+    }
+
+    static keyOf(components: Iterable<TObjectProto>): string {
+        const ids = [];
+        let component;
+        let id;
+
+        for (component of components) {
+            id = componentTypeIds.get(component);
+
+            if (id === undefined) {
+                id = componentTypeIds.size;
+                componentTypeIds.set(component, id);
+            }
+
+            ids.push(id);
+        }
+
+        return ids.sort((a, b) => a - b).join(',');
+    }
+
+    constructor(components: Iterable<TObjectProto>) {
+        this.components = new Set(components);
+        this.key = Archetype.keyOf(this.components);
+    }
+
+    canBeUsedBy(system: ISystem<TSystemData>): boolean {
+        let canUse = this.systemUsage.get(system);
+
+        if (canUse === undefined) {
+            // all entities share the same components, so any of them can answer for the whole archetype
+            const entity = this.entities.values().next().value as IEntity | undefined;
+            if (!entity) return false;
+
+            canUse = system.canUseEntity(entity);
+            this.systemUsage.set(system, canUse);
+        }
+
+        return canUse;
+    }
+
+    matchesQueue<C extends Object, T extends TComponentAccess<C>>(query: T[]): boolean {
+        let requirement: TComponentAccess<C>;
+        let componentAccess;
+
+        for (requirement of query) {
+            componentAccess = requirement[access];
+
+            if (
+                componentAccess.type == EAccess.META
+                || componentAccess.type == EAccess.READ_OPTIONAL
+                || componentAccess.type == EAccess.WRITE_OPTIONAL
+            ) {
+                continue;
+            }
+
+            if (this.components.has(componentAccess.component) == (componentAccess.type == EAccess.UNSET || componentAccess.type == EAccess.REMOVED)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+}
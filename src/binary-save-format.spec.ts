@@ -0,0 +1,23 @@
+import {ISaveFormat, TSerializer} from "./save-format.spec";
+
+/// first bytes of every binary save ("SECS")
+export const binarySaveMagic = [0x53, 0x45, 0x43, 0x53];
+/// version of the binary layout, which is followed by the version of the save format
+export const binarySaveVersion = 1;
+
+export enum EValueTag {
+    NULL,
+    FALSE,
+    TRUE,
+    UINT,
+    NINT,
+    FLOAT,
+    STRING,
+    ARRAY,
+    OBJECT,
+}
+
+export interface IBinarySaveFormat extends ISaveFormat {
+    loadBinary(data: Uint8Array): void
+    toBinary(serializer?: TSerializer): Uint8Array
+}
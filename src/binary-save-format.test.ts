@@ -0,0 +1,83 @@
+import {expect} from 'chai';
+import {BinarySaveFormat} from "./binary-save-format";
+import {Entity} from "./entity";
+
+const serializedWorld = JSON.stringify({version: {format: 1, schema: 0}, entities: [
+    {
+        id: 1,
+        components: [],
+    },
+    {
+        id: 2,
+        components: [
+            ["Date", "1970-01-01T00:00:00.000Z"],
+            ["ChildOf", [1]],
+        ],
+    },
+    {
+        components: [
+            ["C1", {"a": 0, "b": -42, "c": 1.5, "d": 2 ** 40}],
+            ["C2", {"list": [true, false, null, "Foo"], "nested": {"a": 1, "b": "Bar"}}],
+            ["C1", {"a": 1, "b": 2, "c": 3, "d": 4}],
+        ],
+    },
+]});
+
+describe('Test BinarySaveFormat', () => {
+    it('JSON/binary round-trip', () => {
+        const binary = BinarySaveFormat.fromJSON(serializedWorld);
+        const json = BinarySaveFormat.fromBinary(binary.toBinary()).toJSON();
+
+        expect(json).eq(serializedWorld);
+    });
+
+    it('binary is smaller than JSON', () => {
+        const entities = [];
+
+        for (let i = 0; i < 1000; i++) {
+            entities.push({id: i, components: [["Position", {x: i, y: -i}], ["Name", "Entity"]]});
+        }
+
+        const json = JSON.stringify({version: {format: 1, schema: 0}, entities});
+        const binary = BinarySaveFormat.fromJSON(json).toBinary();
+
+        expect(binary.length).lessThan(json.length / 3);
+        expect(BinarySaveFormat.fromBinary(binary).toJSON()).eq(json);
+    });
+
+    it('setEntities() saves the same data as JSON', () => {
+        const entity = new Entity();
+        entity.addComponent(new Date(1337));
+        entity.addComponent({a: 1, b: undefined, c: () => {}});
+
+        const save = new BinarySaveFormat();
+        save.setEntities([entity][Symbol.iterator]());
+
+        expect(BinarySaveFormat.fromBinary(save.toBinary()).toJSON()).eq(save.toJSON());
+    });
+
+    it('keeps resources and states', () => {
+        const json = serializedWorld.replace(/}$/, ',"resources":[["Score",{"points":42}]],"states":["Menu","Level"]}');
+        const save = BinarySaveFormat.fromJSON(json);
+
+        expect(BinarySaveFormat.fromBinary(save.toBinary()).toJSON()).eq(json);
+    });
+
+    it('keeps the schema version', () => {
+        const save = BinarySaveFormat.fromJSON(serializedWorld.replace('"schema":0', '"schema":7'));
+        const loaded = new BinarySaveFormat();
+
+        save.registerMigration(0, 7, entities => entities);
+        loaded.registerMigration(0, 7, entities => entities);
+        loaded.loadBinary(save.toBinary());
+
+        expect(loaded.toJSON()).eq(save.toJSON());
+        expect(JSON.parse(save.toJSON()).version.schema).eq(7);
+    });
+
+    it('rejects invalid data', () => {
+        expect(() => BinarySaveFormat.fromBinary(new Uint8Array([1, 2, 3, 4, 5]))).throws('Data is not a binary save!');
+        expect(() => BinarySaveFormat.fromBinary(new Uint8Array([0x53, 0x45, 0x43, 0x53, 1, 0, 0, 0, 1]))).throws('Unexpected end of binary save!');
+        expect(() => BinarySaveFormat.fromBinary(new Uint8Array([0x53, 0x45, 0x43, 0x53, 1, 2]))).throws('Save format version 2 is not supported!');
+    });
+});
@@ -0,0 +1,433 @@
+import {binarySaveMagic, binarySaveVersion, EValueTag, IBinarySaveFormat} from "./binary-save-format.spec";
+import {checkSaveFormatVersion, defaultSerializer, SaveFormat} from "./save-format";
+import {TComponent, TEntity, TSaveFile, TSaveFormat, TSerializer} from "./save-format.spec";
+
+export * from './binary-save-format.spec';
+
+class BinaryWriter {
+    protected buffer = new Uint8Array(1024);
+    protected view = new DataView(this.buffer.buffer);
+    length = 0;
+
+    protected reserve(bytes: number) {
+        if (this.length + bytes <= this.buffer.length) {
+            return;
+        }
+
+        let size = this.buffer.length * 2;
+        while (size < this.length + bytes) {
+            size *= 2;
+        }
+
+        const buffer = new Uint8Array(size);
+        buffer.set(this.buffer.subarray(0, this.length));
+        this.buffer = buffer;
+        this.view = new DataView(buffer.buffer);
+    }
+
+    toUint8Array(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+
+    writeByte(byte: number) {
+        this.reserve(1);
+        this.buffer[this.length++] = byte;
+    }
+
+    writeBytes(bytes: Uint8Array) {
+        this.reserve(bytes.length);
+        this.buffer.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    writeFloat64(value: number) {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value, true);
+        this.length += 8;
+    }
+
+    writeVarUint(value: number) {
+        // no bit operations, since they would truncate to 32bit
+        while (value >= 0x80) {
+            this.writeByte((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+
+        this.writeByte(value);
+    }
+}
+
+class BinaryReader {
+    protected offset = 0;
+    protected view: DataView;
+
+    constructor(protected data: Uint8Array) {
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    protected assertAvailable(bytes: number) {
+        if (this.offset + bytes > this.data.length) {
+            throw new Error('Unexpected end of binary save!');
+        }
+    }
+
+    readByte(): number {
+        this.assertAvailable(1);
+        return this.data[this.offset++];
+    }
+
+    readBytes(length: number): Uint8Array {
+        this.assertAvailable(length);
+        this.offset += length;
+        return this.data.subarray(this.offset - length, this.offset);
+    }
+
+    readFloat64(): number {
+        this.assertAvailable(8);
+        this.offset += 8;
+        return this.view.getFloat64(this.offset - 8, true);
+    }
+
+    readVarUint(): number {
+        let value = 0;
+        let factor = 1;
+        let byte;
+
+        do {
+            byte = this.readByte();
+            value += (byte & 0x7f) * factor;
+            factor *= 0x80;
+        } while (byte & 0x80);
+
+        return value;
+    }
+}
+
+/// writes the entities into a string table, a table of object shapes (the keys of an object) and the body
+class BinaryEncoder {
+    protected body = new BinaryWriter();
+    protected shapes: Map<string, number[]> = new Map();
+    protected shapeIndices: Map<string, number> = new Map();
+    protected strings: Map<string, number> = new Map();
+
+    encode(save: TSaveFile): Uint8Array {
+        const out = new BinaryWriter();
+        const textEncoder = new TextEncoder();
+        let bytes;
+        let keys;
+        let resource;
+        let state;
+        let string;
+
+        this.body.writeVarUint(save.entities.length);
+        for (const entity of save.entities) {
+            this.writeEntity(entity);
+        }
+
+        // optional lists are stored with their length + 1, so that zero marks a missing list
+        this.body.writeVarUint(save.resources ? save.resources.length + 1 : 0);
+        for (resource of save.resources ?? []) {
+            this.body.writeVarUint(this.getStringIndex(resource[0]));
+            this.writeValue(resource[1]);
+        }
+
+        this.body.writeVarUint(save.states ? save.states.length + 1 : 0);
+        for (state of save.states ?? []) {
+            this.body.writeVarUint(this.getStringIndex(state));
+        }
+
+        out.writeBytes(Uint8Array.from(binarySaveMagic));
+        out.writeByte(binarySaveVersion);
+        out.writeVarUint(save.version.format);
+        out.writeVarUint(save.version.schema);
+
+        out.writeVarUint(this.strings.size);
+        for (string of this.strings.keys()) {
+            bytes = textEncoder.encode(string);
+            out.writeVarUint(bytes.length);
+            out.writeBytes(bytes);
+        }
+
+        out.writeVarUint(this.shapes.size);
+        for (keys of this.shapes.values()) {
+            out.writeVarUint(keys.length);
+            keys.forEach(key => out.writeVarUint(key));
+        }
+
+        out.writeBytes(this.body.toUint8Array());
+
+        return out.toUint8Array();
+    }
+
+    protected getShapeIndex(keys: string[]): number {
+        const keyIndices = keys.map(key => this.getStringIndex(key));
+        const shapeKey = keyIndices.join(',');
+        let index = this.shapeIndices.get(shapeKey);
+
+        if (index === undefined) {
+            index = this.shapeIndices.size;
+            this.shapeIndices.set(shapeKey, index);
+            this.shapes.set(shapeKey, keyIndices);
+        }
+
+        return index;
+    }
+
+    protected getStringIndex(string: string): number {
+        let index = this.strings.get(string);
+
+        if (index === undefined) {
+            index = this.strings.size;
+            this.strings.set(string, index);
+        }
+
+        return index;
+    }
+
+    protected writeEntity(entity: TEntity) {
+        let component: TComponent;
+
+        // zero marks entities without id
+        this.body.writeVarUint(entity.id === undefined ? 0 : entity.id + 1);
+        this.body.writeVarUint(entity.components.length);
+
+        for (component of entity.components) {
+            this.body.writeVarUint(this.getStringIndex(component[0]));
+            this.writeValue(component[1]);
+        }
+    }
+
+    protected writeValue(value: unknown) {
+        // follow the rules of JSON.stringify(), so that both formats contain the same data
+        if (value && typeof (value as { toJSON?: unknown }).toJSON == 'function') {
+            value = (value as { toJSON: () => unknown }).toJSON();
+        }
+
+        switch (typeof value) {
+            case 'boolean': {
+                this.body.writeByte(value ? EValueTag.TRUE : EValueTag.FALSE);
+                return;
+            }
+
+            case 'number': {
+                if (Number.isSafeInteger(value)) {
+                    this.body.writeByte(value < 0 ? EValueTag.NINT : EValueTag.UINT);
+                    this.body.writeVarUint(Math.abs(value));
+                }
+                else if (Number.isFinite(value)) {
+                    this.body.writeByte(EValueTag.FLOAT);
+                    this.body.writeFloat64(value);
+                }
+                else {
+                    this.body.writeByte(EValueTag.NULL);
+                }
+
+                return;
+            }
+
+            case 'string': {
+                this.body.writeByte(EValueTag.STRING);
+                this.body.writeVarUint(this.getStringIndex(value));
+                return;
+            }
+
+            case 'object': {
+                if (value === null) {
+                    break;
+                }
+
+                if (Array.isArray(value)) {
+                    this.body.writeByte(EValueTag.ARRAY);
+                    this.body.writeVarUint(value.length);
+                    value.forEach(item => this.writeValue(item));
+                    return;
+                }
+
+                const keys = Object.keys(value as Object).filter(key => isSerializable((value as Record<string, unknown>)[key]));
+
+                this.body.writeByte(EValueTag.OBJECT);
+                this.body.writeVarUint(this.getShapeIndex(keys));
+                keys.forEach(key => this.writeValue((value as Record<string, unknown>)[key]));
+                return;
+            }
+
+            case 'bigint': {
+                throw new Error('Cannot save BigInt values!');
+            }
+        }
+
+        this.body.writeByte(EValueTag.NULL);
+    }
+}
+
+class BinaryDecoder {
+    protected reader: BinaryReader;
+    protected shapes: string[][] = [];
+    protected strings: string[] = [];
+
+    constructor(data: Uint8Array) {
+        this.reader = new BinaryReader(data);
+    }
+
+    decode(): TSaveFile {
+        const textDecoder = new TextDecoder();
+        const entities: TSaveFormat = [];
+        let count;
+        let resources: TComponent[] | undefined;
+        let states: string[] | undefined;
+        let i;
+        let keys;
+        let keyCount;
+
+        for (i = 0; i < binarySaveMagic.length; i++) {
+            if (this.reader.readByte() != binarySaveMagic[i]) {
+                throw new Error('Data is not a binary save!');
+            }
+        }
+
+        const version = this.reader.readByte();
+        if (version != binarySaveVersion) {
+            throw new Error(`Binary save version ${version} is not supported!`);
+        }
+
+        const formatVersion = this.reader.readVarUint();
+        checkSaveFormatVersion(formatVersion);
+
+        const schemaVersion = this.reader.readVarUint();
+
+        count = this.reader.readVarUint();
+        for (i = 0; i < count; i++) {
+            this.strings.push(textDecoder.decode(this.reader.readBytes(this.reader.readVarUint())));
+        }
+
+        count = this.reader.readVarUint();
+        for (i = 0; i < count; i++) {
+            keys = [];
+            keyCount = this.reader.readVarUint();
+
+            while (keys.length < keyCount) {
+                keys.push(this.readString());
+            }
+
+            this.shapes.push(keys);
+        }
+
+        count = this.reader.readVarUint();
+        for (i = 0; i < count; i++) {
+            entities.push(this.readEntity());
+        }
+
+        count = this.reader.readVarUint();
+        if (count > 0) {
+            resources = [];
+
+            for (i = 1; i < count; i++) {
+                resources.push([this.readString(), this.readValue()]);
+            }
+        }
+
+        count = this.reader.readVarUint();
+        if (count > 0) {
+            states = [];
+
+            for (i = 1; i < count; i++) {
+                states.push(this.readString());
+            }
+        }
+
+        return {
+            version: {
+                format: formatVersion,
+                schema: schemaVersion,
+            },
+            entities,
+            resources,
+            states,
+        };
+    }
+
+    protected readEntity(): TEntity {
+        const id = this.reader.readVarUint();
+        const count = this.reader.readVarUint();
+        const components: TComponent[] = [];
+
+        while (components.length < count) {
+            components.push([this.readString(), this.readValue()]);
+        }
+
+        return id == 0
+            ? { components }
+            : { id: id - 1, components };
+    }
+
+    protected readString(): string {
+        const index = this.reader.readVarUint();
+
+        if (index >= this.strings.length) {
+            throw new Error(`String ${index} is not part of the binary save!`);
+        }
+
+        return this.strings[index];
+    }
+
+    protected readValue(): unknown {
+        const tag = this.reader.readByte();
+
+        switch (tag) {
+            case EValueTag.NULL: return null;
+            case EValueTag.FALSE: return false;
+            case EValueTag.TRUE: return true;
+            case EValueTag.UINT: return this.reader.readVarUint();
+            case EValueTag.NINT: return -this.reader.readVarUint();
+            case EValueTag.FLOAT: return this.reader.readFloat64();
+            case EValueTag.STRING: return this.readString();
+            case EValueTag.ARRAY: {
+                const length = this.reader.readVarUint();
+                const array = [];
+
+                while (array.length < length) {
+                    array.push(this.readValue());
+                }
+
+                return array;
+            }
+            case EValueTag.OBJECT: {
+                const index = this.reader.readVarUint();
+                const obj: Record<string, unknown> = {};
+
+                if (index >= this.shapes.length) {
+                    throw new Error(`Object shape ${index} is not part of the binary save!`);
+                }
+
+                for (const key of this.shapes[index]) {
+                    obj[key] = this.readValue();
+                }
+
+                return obj;
+            }
+        }
+
+        throw new Error(`Unknown value tag ${tag} in binary save!`);
+    }
+}
+
+const isSerializable = function (value: unknown): boolean {
+    return value !== undefined && typeof value != 'function' && typeof value != 'symbol';
+};
+
+export class BinarySaveFormat extends SaveFormat implements IBinarySaveFormat {
+    static fromBinary(data: Uint8Array): BinarySaveFormat {
+        const save = new BinarySaveFormat();
+        save.loadBinary(data);
+        return save;
+    }
+
+    loadBinary(data: Uint8Array) {
+        this.hasLiveComponents = false;
+        this.loadSaveFile(new BinaryDecoder(data).decode());
+    }
+
+    toBinary(serializer: TSerializer = defaultSerializer()): Uint8Array {
+        return new BinaryEncoder().encode(this.serializeSave(serializer));
+    }
+}
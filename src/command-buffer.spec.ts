@@ -0,0 +1,90 @@
+import {IEntity} from "./entity.spec";
+import {IPartialWorld, ITransitionActions} from "./world.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
+import IState from "./state.spec";
+
+/**
+ * Records structural changes, which are applied to the world at a later point.
+ * All commands are applied in the order they were recorded in.
+ * State transitions are applied after the structural changes of all systems, one after another.
+ */
+export interface ICommandBuffer {
+    /**
+     * Add a component to an entity
+     * @param entity
+     * @param component
+     */
+    addComponent(entity: IEntity, component: Object): ICommandBuffer
+
+    /**
+     * Add an entity to the world
+     * @param entity
+     */
+    addEntity(entity: IEntity): ICommandBuffer
+
+    /**
+     * Add a resource to the world
+     * @param type
+     * @param args constructor parameters
+     */
+    addResource<T extends Object>(type: T | TTypeProto<T>, ...args: unknown[]): ICommandBuffer
+
+    /**
+     * Replace the whole state stack with a new state
+     * @param newState
+     */
+    clearAndPush(newState: IState): ICommandBuffer
+
+    /**
+     * Create a new entity, which will be added to the world.
+     * Components can be added to the returned entity right away.
+     */
+    createEntity(): IEntity
+
+    /**
+     * Revert to the previous state
+     */
+    popState(): ICommandBuffer
+
+    /**
+     * Revert to the topmost state of a type on the state stack
+     * @param State
+     */
+    popToState(State: TTypeProto<IState>): ICommandBuffer
+
+    /**
+     * Change to a new state, keeping the current one on the state stack
+     * @param newState
+     */
+    pushState(newState: IState): ICommandBuffer
+
+    /**
+     * Remove a component from an entity
+     * @param entity
+     * @param component instance or type of the component
+     */
+    removeComponent(entity: IEntity, component: Object | TObjectProto): ICommandBuffer
+
+    /**
+     * Remove an entity from the world
+     * @param entity
+     */
+    removeEntity(entity: IEntity): ICommandBuffer
+
+    /**
+     * Replace a resource of the world
+     * @param type
+     * @param args constructor parameters
+     */
+    replaceResource<T extends Object>(type: T | TTypeProto<T>, ...args: unknown[]): ICommandBuffer
+
+    /**
+     * Replace the current state with a new state
+     * @param newState
+     */
+    switchState(newState: IState): ICommandBuffer
+}
+
+export type TCommand = (world: IPartialWorld) => void;
+export type TTransition = (actions: ITransitionActions) => Promise<void>;
+export default ICommandBuffer;
@@ -0,0 +1,118 @@
+import {ICommandBuffer, TCommand, TTransition} from "./command-buffer.spec";
+import {Entity} from "./entity";
+import IEntity from "./entity.spec";
+import {IPartialWorld, ITransitionActions} from "./world.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
+import IState from "./state.spec";
+
+export * from './command-buffer.spec';
+
+export class CommandBuffer implements ICommandBuffer {
+    protected commands: TCommand[] = [];
+    protected transitions: TTransition[] = [];
+
+    get hasTransitions(): boolean {
+        return this.transitions.length > 0;
+    }
+
+    get isEmpty(): boolean {
+        return this.commands.length == 0;
+    }
+
+    addComponent(entity: IEntity, component: Object): ICommandBuffer {
+        this.commands.push(() => entity.addComponent(component));
+        return this;
+    }
+
+    addEntity(entity: IEntity): ICommandBuffer {
+        this.commands.push(world => world.addEntity(entity));
+        return this;
+    }
+
+    addResource<T extends Object>(type: T | TTypeProto<T>, ...args: unknown[]): ICommandBuffer {
+        this.commands.push(world => world.addResource(type, ...args));
+        return this;
+    }
+
+    /**
+     * Execute all recorded commands on a world and clear the buffer
+     * @param world
+     */
+    apply(world: IPartialWorld): void {
+        const commands = this.commands;
+        let command;
+
+        this.commands = [];
+        for (command of commands) {
+            command(world);
+        }
+    }
+
+    /**
+     * Execute all recorded state transitions one after another and clear them
+     * @param actions
+     */
+    async applyTransitions(actions: ITransitionActions): Promise<void> {
+        const transitions = this.transitions;
+        let transition;
+
+        this.transitions = [];
+        for (transition of transitions) {
+            await transition(actions);
+        }
+    }
+
+    clearAndPush(newState: IState): ICommandBuffer {
+        this.transitions.push(actions => actions.clearAndPush(newState));
+        return this;
+    }
+
+    createEntity(): IEntity {
+        const entity = new Entity();
+        this.addEntity(entity);
+        return entity;
+    }
+
+    popState(): ICommandBuffer {
+        this.transitions.push(actions => actions.popState());
+        return this;
+    }
+
+    popToState(State: TTypeProto<IState>): ICommandBuffer {
+        this.transitions.push(actions => actions.popToState(State));
+        return this;
+    }
+
+    pushState(newState: IState): ICommandBuffer {
+        this.transitions.push(actions => actions.pushState(newState));
+        return this;
+    }
+
+    removeComponent(entity: IEntity, component: Object | TObjectProto): ICommandBuffer {
+        this.commands.push(() => {
+            const instance = typeof component == 'function'
+                ? entity.getComponent(component as TObjectProto)
+                : component;
+
+            if (instance !== undefined) {
+                entity.removeComponent(instance);
+            }
+        });
+        return this;
+    }
+
+    removeEntity(entity: IEntity): ICommandBuffer {
+        this.commands.push(world => world.removeEntity(entity));
+        return this;
+    }
+
+    replaceResource<T extends Object>(type: T | TTypeProto<T>, ...args: unknown[]): ICommandBuffer {
+        this.commands.push(world => world.replaceResource(type, ...args));
+        return this;
+    }
+
+    switchState(newState: IState): ICommandBuffer {
+        this.transitions.push(actions => actions.switchState(newState));
+        return this;
+    }
+}
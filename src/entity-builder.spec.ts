@@ -7,6 +7,14 @@ export interface IEntityBuilder {
      */
     build(): IEntity
 
+    /**
+     * Add copies of the components of a prefab.
+     * Components, which the entity already has, are kept
+     * @param name
+     * @param overrides components, which replace the prefab's components of the same type
+     */
+    fromPrefab(name: string, overrides?: Object[]): IEntityBuilder
+
     /**
      * Associate component with target entity
      * @param component
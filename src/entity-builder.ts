@@ -20,6 +20,22 @@ export class EntityBuilder implements IEntityBuilder {
         return this.entity;
     }
 
+    fromPrefab(name: string, overrides: Object[] = []): IEntityBuilder {
+        const overridden = new Set(overrides.map(component => component.constructor));
+
+        for (const component of this.world.getPrefabComponents(name)) {
+            if (!overridden.has(component.constructor) && !this.entity.hasComponent(component.constructor as TObjectProto)) {
+                this.entity.addComponent(component);
+            }
+        }
+
+        for (const component of overrides) {
+            this.entity.addComponent(component);
+        }
+
+        return this;
+    }
+
     with(component: Object | TObjectProto, ...args: unknown[]): IEntityBuilder {
         this.entity.addComponent(this.asComponent(component));
         return this;
@@ -2,7 +2,15 @@ import {IEntityWorld} from "./world.spec";
 import {TObjectProto, TTypeProto} from "./_.spec";
 import {TComponentAccess} from "./queue.spec";
 
+export type TEntityId = number;
+
 export interface IEntity {
+    /**
+     * Unique identifier of this entity, which is kept when saving and loading.
+     * Ids are never re-used, so an id of a removed entity will not resolve to another entity.
+     */
+    readonly id: TEntityId
+
     /**
      * Add a component to this entity
      * @param component
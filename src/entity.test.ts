@@ -1,8 +1,18 @@
 import {assert, expect} from 'chai';
 import {Entity} from "./entity";
-import {Read, ReadEntity, With, Without, Write} from "./queue.spec";
+import {Read, ReadEntity, ReadOptional, TComponentAccess, With, Without, Write, WriteOptional} from "./queue.spec";
+import {SystemData} from "./system.spec";
 
 describe('Test Entity', () => {
+    it('Unique ids', () => {
+        const entity = new Entity();
+        const loadedEntity = new Entity(undefined, entity.id + 100);
+
+        expect(new Entity().id).not.eq(entity.id);
+        expect(loadedEntity.id).eq(entity.id + 100);
+        expect(new Entity().id).gt(loadedEntity.id);
+    });
+
     it('addComponent', () => {
         const entity = new Entity();
 
@@ -77,4 +87,28 @@ describe('Test Entity', () => {
         expect(entity.matchesQueue([With(Date), Without(Set)])).eq(true);
         expect(entity.matchesQueue([Without(Date), Without(Set)])).eq(false);
     });
+
+    it('matchesQueue() Optional components are ignored', () => {
+        // systems pass the fields of their data in the same way
+        const readDate = ReadOptional(Date) as TComponentAccess<Date>;
+        const writeDate = WriteOptional(Date) as TComponentAccess<Date>;
+
+        expect(new Entity().matchesQueue([readDate])).eq(true);
+        expect(new Entity().matchesQueue([writeDate])).eq(true);
+        expect(new Entity().addComponent(new Map()).matchesQueue([Read(Map), readDate])).eq(true);
+    });
+
+    it('Optional components may be undefined', () => {
+        class OptionalData extends SystemData { date = ReadOptional(Date); map = WriteOptional(Map) }
+        const getTime = (data: OptionalData) => {
+            // @ts-expect-error the component may be missing
+            const time = data.date.getTime();
+            // @ts-expect-error the component may be missing
+            return time + data.map.size;
+        };
+        const getTimeChecked = (data: OptionalData): number | undefined => data.date?.getTime();
+
+        expect(getTime).a('function');
+        expect(getTimeChecked).a('function');
+    });
 });
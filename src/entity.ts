@@ -1,15 +1,57 @@
 import {IEntityWorld} from "./world.spec";
-import IEntity from "./entity.spec";
+import IEntity, {TEntityId} from "./entity.spec";
 import {TObjectProto, TTypeProto} from "./_.spec";
 import {access, EAccess, TComponentAccess} from "./queue.spec";
+import {IRelation} from "./relation.spec";
 
 export * from './entity.spec';
 
+let nextEntityId: TEntityId = 1;
+// ids, which are handed out to new entities before generating new ones, in order to replay a recording
+let queuedIds: TEntityId[] = [];
+// ids of all entities, which were created without an explicit id, in order to record a run
+let usedIds: TEntityId[] | undefined;
+
 export class Entity implements IEntity {
     protected components: Map<TObjectProto, Object> = new Map();
+    readonly id: TEntityId;
     protected world?: IEntityWorld;
 
-    constructor(world?: IEntityWorld) {
+    /**
+     * Collect the ids of all entities, which are created without an explicit id, in the order of their creation.
+     * The returned function stops collecting and returns the ids
+     */
+    static collectIds(): () => TEntityId[] {
+        const ids: TEntityId[] = [];
+
+        usedIds = ids;
+        return () => {
+            usedIds = undefined;
+            return ids;
+        };
+    }
+
+    /**
+     * Hand out the given ids to the next entities, which are created without an explicit id.
+     * The returned function drops the ids, which were not used
+     * @param ids
+     */
+    static queueIds(ids: TEntityId[]): () => void {
+        queuedIds = ids.slice();
+        return () => {
+            queuedIds = [];
+        };
+    }
+
+    constructor(world?: IEntityWorld, id?: TEntityId) {
+        if (id === undefined) {
+            id = queuedIds.shift() ?? nextEntityId;
+            usedIds?.push(id);
+        }
+
+        this.id = id;
+        // make sure that new entities never collide with loaded or replayed ones
+        nextEntityId = Math.max(nextEntityId, id + 1);
         this.world = world;
     }
 
@@ -19,17 +61,14 @@ export class Entity implements IEntity {
         }
 
         this.components.set(component.constructor as TObjectProto, component);
+        this.world?.updateEntity(this);
         return this;
     }
 
     changeWorldTo(newWorld?: IEntityWorld): void {
-        const updateSystems = this.world?.isDirty && this.world?.isRunning;
-
-        updateSystems && this.world?.removeEntityFromSystems(this);
         this.world?.removeEntity(this);
         this.world = newWorld;
         this.world?.addEntity(this);
-        updateSystems && this.world?.assignEntityToSystems(this);
     }
 
     getComponent<T extends Object>(component: TTypeProto<T>): T | undefined {
@@ -51,11 +90,22 @@ export class Entity implements IEntity {
         for (requirement of query) {
             componentAccess = requirement[access];
 
-            if (componentAccess.type == EAccess.META) {
+            if (
+                componentAccess.type == EAccess.META
+                || componentAccess.type == EAccess.READ_OPTIONAL
+                || componentAccess.type == EAccess.WRITE_OPTIONAL
+            ) {
                 continue;
             }
 
-            if (this.components.has(componentAccess.component) == (componentAccess.type == EAccess.UNSET)) {
+            if (this.components.has(componentAccess.component) == (componentAccess.type == EAccess.UNSET || componentAccess.type == EAccess.REMOVED)) {
+                return false;
+            }
+
+            if (
+                componentAccess.type == EAccess.RELATED
+                && !(this.components.get(componentAccess.component) as IRelation).targets.has(componentAccess.target as IEntity)
+            ) {
                 return false;
             }
         }
@@ -66,11 +116,9 @@ export class Entity implements IEntity {
     removeComponent(component: Object): IEntity {
         if (this.components.has(component.constructor as TObjectProto)) {
             this.components.delete(component.constructor as TObjectProto);
+            this.world?.updateEntity(this);
         }
 
-        // this will refresh the entity in the world
-        this.changeWorldTo(this.world);
-
         return this;
     }
 }
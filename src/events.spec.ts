@@ -0,0 +1,15 @@
+export interface IEventReader<E extends Object> {
+    /**
+     * Get all events, which were written since the last read.
+     * Events stay available until the end of the iteration after the one they were written in
+     */
+    read(): IterableIterator<E>
+}
+
+export interface IEventWriter<E extends Object> {
+    /**
+     * Send an event to all readers of its type
+     * @param event
+     */
+    write(event: E): void
+}
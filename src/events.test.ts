@@ -0,0 +1,44 @@
+import {expect} from 'chai';
+import {EventChannel, EventReader, EventWriter} from "./events";
+
+class Hit {
+    constructor(public damage = 0) {}
+}
+
+describe('Test Events', () => {
+    it('readers get each event once', () => {
+        const channel = new EventChannel<Hit>();
+        const reader = new EventReader(channel);
+        const writer = new EventWriter(channel);
+
+        writer.write(new Hit(1));
+        writer.write(new Hit(2));
+        expect(Array.from(reader.read()).map(hit => hit.damage)).to.deep.equal([1, 2]);
+        expect(Array.from(reader.read())).to.be.empty;
+
+        writer.write(new Hit(3));
+        expect(Array.from(reader.read()).map(hit => hit.damage)).to.deep.equal([3]);
+    });
+
+    it('events are dropped after two swaps', () => {
+        const channel = new EventChannel<Hit>();
+        const earlyReader = new EventReader(channel);
+        const lateReader = new EventReader(channel);
+        const writer = new EventWriter(channel);
+
+        writer.write(new Hit(1));
+        channel.swap();
+        writer.write(new Hit(2));
+        expect(Array.from(earlyReader.read()).map(hit => hit.damage)).to.deep.equal([1, 2]);
+
+        channel.swap();
+        expect(Array.from(lateReader.read()).map(hit => hit.damage)).to.deep.equal([2]);
+    });
+
+    it('new readers skip old events', () => {
+        const channel = new EventChannel<Hit>();
+
+        new EventWriter(channel).write(new Hit(1));
+        expect(Array.from(new EventReader(channel).read())).to.be.empty;
+    });
+});
@@ -0,0 +1,70 @@
+import {IEventReader, IEventWriter} from "./events.spec";
+
+export * from './events.spec';
+
+/// double buffered event queue. Events are dropped after they survived two swaps
+export class EventChannel<E extends Object> {
+    protected current: E[] = [];
+    // number of events, which were dropped already
+    protected offset = 0;
+    protected previous: E[] = [];
+
+    /**
+     * Total number of events, which were written to this channel
+     */
+    get count(): number {
+        return this.offset + this.previous.length + this.current.length;
+    }
+
+    clear() {
+        this.offset = this.count;
+        this.current = [];
+        this.previous = [];
+    }
+
+    /**
+     * Get all events, which are still available, starting with the event at a position of count
+     * @param position
+     */
+    readFrom(position: number): E[] {
+        const index = Math.max(position - this.offset, 0);
+
+        return index < this.previous.length
+            ? this.previous.slice(index).concat(this.current)
+            : this.current.slice(index - this.previous.length);
+    }
+
+    swap() {
+        this.offset += this.previous.length;
+        this.previous = this.current;
+        this.current = [];
+    }
+
+    write(event: E) {
+        this.current.push(event);
+    }
+}
+
+export class EventReader<E extends Object> implements IEventReader<E> {
+    protected position: number;
+
+    constructor(protected channel: EventChannel<E>) {
+        // events, which were written before the reader existed, are not of interest
+        this.position = channel.count;
+    }
+
+    read(): IterableIterator<E> {
+        const events = this.channel.readFrom(this.position);
+
+        this.position = this.channel.count;
+        return events.values();
+    }
+}
+
+export class EventWriter<E extends Object> implements IEventWriter<E> {
+    constructor(protected channel: EventChannel<E>) {}
+
+    write(event: E) {
+        this.channel.write(event);
+    }
+}
@@ -1,7 +1,16 @@
+export * from './command-buffer';
 export * from './ecs';
 export * from './entity';
 export * from './entity-builder';
+export * from './events';
+export * from './prefab.spec';
 export * from './queue.spec';
+export * from './recorder';
+export * from './relation';
+export * from './snapshot';
 export * from './state';
 export * from './system';
+export * from './time';
+export * from './type-registry';
 export * from './world';
+export * from './world-builder';
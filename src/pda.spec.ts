@@ -1,6 +1,8 @@
 // todo: this PushDownAutomaton could get its own package on npm
 export interface IPushDownAutomaton<T> {
     readonly state?: T
+    /// all states on the stack, from the bottom to the current state
+    readonly states: T[]
     clear(): void
     pop(): T | undefined
     push(state: T): void
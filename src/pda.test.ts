@@ -8,4 +8,13 @@ describe('Test PDA', () => {
         assert.equal(pda.pop(), 42);
         assert.equal(pda.pop(), undefined);
     });
+
+    it('states', () => {
+        const pda = new PushDownAutomaton<number>();
+        pda.push(1);
+        pda.push(2);
+        pda.push(3);
+        pda.pop();
+        assert.deepEqual(pda.states, [1, 2]);
+    });
 });
@@ -13,6 +13,18 @@ export class PushDownAutomaton<T> implements IPushDownAutomaton<T> {
         return this.currentState;
     }
 
+    get states(): T[] {
+        const states = [];
+        let node = this.statesTail;
+
+        while (node) {
+            states.unshift(node.state);
+            node = node.prevNode;
+        }
+
+        return states;
+    }
+
     clear(): void {
         this.currentState = undefined;
         this.statesTail = undefined;
@@ -0,0 +1,15 @@
+import {TComponent} from "./save-format.spec";
+
+export type TPrefab = {
+    // name of another prefab, whose components are inherited and may be overridden by this prefab
+    extends?: string
+    // components with their default values, which are copied for each new entity
+    components: Object[]
+};
+/// prefabs by name, with their components stored the same way as in a save
+export type TPrefabDefinitions = {
+    [name: string]: {
+        extends?: string
+        components: TComponent[]
+    }
+};
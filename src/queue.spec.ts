@@ -1,5 +1,7 @@
 import {TTypeProto} from "./_.spec";
 import {Entity} from "./entity";
+import {IEntity} from "./entity.spec";
+import {IRelation, TRelationProto} from "./relation.spec";
 
 export const access = Symbol();
 
@@ -9,15 +11,78 @@ export enum EAccess {
     WRITE,
     SET,
     UNSET,
+    ADDED,
+    CHANGED,
+    REMOVED,
+    READ_OPTIONAL,
+    WRITE_OPTIONAL,
+    RELATED,
 }
 
 export type TComponentAccess<C extends Object> = {
     [access]: {
         readonly component: TTypeProto<C>
+        // only used for relation queries
+        readonly target?: IEntity
         readonly type: EAccess
     }
 }
 
+/**
+ * Only match entities, which got the component since the last run of the system
+ * @param componentPrototype
+ */
+export function Added<C extends Object>(componentPrototype: TTypeProto<C>): TComponentAccess<C> {
+    return {
+        [access]: {
+            component: componentPrototype,
+            type: EAccess.ADDED,
+        }
+    };
+}
+
+/**
+ * Only match entities, whose component was added or accessed with Write() since the last run of the system
+ * @param componentPrototype
+ */
+export function Changed<C extends Object>(componentPrototype: TTypeProto<C>): TComponentAccess<C> {
+    return {
+        [access]: {
+            component: componentPrototype,
+            type: EAccess.CHANGED,
+        }
+    };
+}
+
+/**
+ * Only match entities, which lost the component since the last run of the system
+ * @param componentPrototype
+ */
+export function Removed<C extends Object>(componentPrototype: TTypeProto<C>): TComponentAccess<C> {
+    return {
+        [access]: {
+            component: componentPrototype,
+            type: EAccess.REMOVED,
+        }
+    };
+}
+
+/**
+ * Only match entities, which hold a relation to a certain target.
+ * Since the match depends on the entity, this marker is meant for world queries, not for system data.
+ * @param relationPrototype
+ * @param target
+ */
+export function RelatedTo<R extends IRelation>(relationPrototype: TRelationProto<R>, target: IEntity): TComponentAccess<R> {
+    return {
+        [access]: {
+            component: relationPrototype,
+            target,
+            type: EAccess.RELATED,
+        }
+    };
+}
+
 export function ReadEntity(): Entity & TComponentAccess<Entity> {
     return Object.assign({}, Entity.prototype, {
         [access]: {
@@ -36,6 +101,19 @@ export function Read<C extends Object>(componentPrototype: TTypeProto<C>): C & T
     });
 }
 
+/**
+ * Read a component if the entity has it, without requiring it for matching
+ * @param componentPrototype
+ */
+export function ReadOptional<C extends Object>(componentPrototype: TTypeProto<C>): (C & TComponentAccess<C>) | undefined {
+    return Object.assign({}, componentPrototype.prototype, {
+        [access]: {
+            component: componentPrototype,
+            type: EAccess.READ_OPTIONAL,
+        },
+    });
+}
+
 export function Write<C extends Object>(componentPrototype: TTypeProto<C>): C & TComponentAccess<C> {
     return Object.assign({}, componentPrototype.prototype, {
         [access]: {
@@ -45,6 +123,19 @@ export function Write<C extends Object>(componentPrototype: TTypeProto<C>): C &
     });
 }
 
+/**
+ * Write a component if the entity has it, without requiring it for matching
+ * @param componentPrototype
+ */
+export function WriteOptional<C extends Object>(componentPrototype: TTypeProto<C>): (C & TComponentAccess<C>) | undefined {
+    return Object.assign({}, componentPrototype.prototype, {
+        [access]: {
+            component: componentPrototype,
+            type: EAccess.WRITE_OPTIONAL,
+        },
+    });
+}
+
 export function With<C extends Object>(componentPrototype: TTypeProto<C>): TComponentAccess<C> {
     return {
         [access]: {
@@ -0,0 +1,71 @@
+import {TEntityId} from "./entity.spec";
+import IState from "./state.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
+import {TSnapshot} from "./snapshot.spec";
+import {ITransitionActions} from "./world.spec";
+
+export type TRecordedAction =
+    // components are copied at the end of the frame, so that components added after creation are recorded, too
+    { action: 'addEntity', id: TEntityId, components: Object[] }
+    | { action: 'addResource', resource: Object }
+    | { action: 'clearAndPush', state: IState }
+    | { action: 'popState' }
+    | { action: 'popToState', type: TTypeProto<IState> }
+    | { action: 'pushState', state: IState }
+    | { action: 'removeEntity', id: TEntityId }
+    | { action: 'removeResource', type: TObjectProto }
+    | { action: 'replaceResource', resource: Object }
+    | { action: 'switchState', state: IState };
+export type TRecordedFrame = {
+    actions: TRecordedAction[]
+    alpha: number
+    delta: number
+    // ids of the entities, which were created without an explicit id during the iteration, in the order of their creation
+    entityIds: TEntityId[]
+    // hash of the world state at the end of the frame
+    hash: number
+};
+export type TRecording = {
+    frames: TRecordedFrame[]
+    snapshot: TSnapshot
+    // state stack at the start of the recording, from the bottom to the current state
+    states: IState[]
+};
+export type TReplayOptions = {
+    // compare the hash of the world state after each frame with the recording, and throw on a mismatch
+    verify?: boolean
+};
+
+export interface IRecorder {
+    /**
+     * The recording, once a run was started with this recorder
+     */
+    readonly recording: TRecording | undefined
+
+    /**
+     * Called by the world at the end of each iteration
+     * @param hash
+     * @param entityIds
+     */
+    endFrame(hash: number, entityIds: TEntityId[]): void
+
+    /**
+     * Wrap the transition actions, so that all changes to the world are recorded
+     * @param actions
+     */
+    recordActions(actions: ITransitionActions): ITransitionActions
+
+    /**
+     * Called by the world at the start of a run
+     * @param snapshot
+     * @param states
+     */
+    start(snapshot: TSnapshot, states: IState[]): void
+
+    /**
+     * Called by the world at the start of each iteration
+     * @param delta
+     * @param alpha
+     */
+    startFrame(delta: number, alpha: number): void
+}
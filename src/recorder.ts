@@ -0,0 +1,233 @@
+import {Entity} from "./entity";
+import IEntity, {TEntityId} from "./entity.spec";
+import {EntityBuilder} from "./entity-builder";
+import IState from "./state.spec";
+import {TTypeProto} from "./_.spec";
+import {deepCopy, TSnapshot} from "./snapshot";
+import {IRecorder, TRecordedAction, TRecordedFrame, TRecording} from "./recorder.spec";
+import {ITransitionActions} from "./world.spec";
+import IWorld from "./world.spec";
+
+export * from './recorder.spec';
+
+const fnvOffsetBasis = 0x811c9dc5;
+const fnvPrime = 0x01000193;
+
+const canonicalize = function (value: unknown, out: string[]) {
+    if (typeof value != 'object' || value === null) {
+        out.push(typeof value == 'string' ? JSON.stringify(value) : String(value));
+        return;
+    }
+
+    // entities are identified by their id, so that equal worlds have the same hash
+    if (value instanceof Entity) {
+        out.push('#' + value.id);
+        return;
+    }
+
+    out.push(value.constructor?.name ?? '', '{');
+
+    if (value instanceof Date || value instanceof Boolean || value instanceof Number || value instanceof String) {
+        out.push(String(value.valueOf()));
+    }
+    else if (value instanceof Map) {
+        value.forEach((item, key) => {
+            canonicalize(key, out);
+            out.push(':');
+            canonicalize(item, out);
+            out.push(',');
+        });
+    }
+    else if (value instanceof Set || Array.isArray(value) || ArrayBuffer.isView(value)) {
+        for (const item of Array.from(value as Iterable<unknown>)) {
+            canonicalize(item, out);
+            out.push(',');
+        }
+    }
+    else {
+        for (const key of Object.keys(value).sort()) {
+            out.push(key, ':');
+            canonicalize((value as { [key: string]: unknown })[key], out);
+            out.push(',');
+        }
+    }
+
+    out.push('}');
+};
+
+/**
+ * Calculate a hash (32bit FNV-1a) of the data of entities and resources, which does not depend on their order
+ * @param entities
+ * @param resources
+ */
+export const hashState = function (entities: Iterable<IEntity>, resources: Iterable<Object>): number {
+    const out: string[] = [];
+    let component;
+    let entity;
+    let hash = fnvOffsetBasis;
+    let resource;
+
+    for (entity of Array.from(entities).sort((a, b) => a.id - b.id)) {
+        out.push('#' + entity.id, '[');
+
+        for (component of Array.from(entity.getComponents()).sort((a, b) => a.constructor.name.localeCompare(b.constructor.name))) {
+            canonicalize(component, out);
+        }
+
+        out.push(']');
+    }
+
+    for (resource of Array.from(resources).sort((a, b) => a.constructor.name.localeCompare(b.constructor.name))) {
+        canonicalize(resource, out);
+    }
+
+    for (const char of out.join('')) {
+        hash ^= char.codePointAt(0) as number;
+        hash = Math.imul(hash, fnvPrime) >>> 0;
+    }
+
+    return hash;
+};
+
+export class Recorder implements IRecorder {
+    protected currentFrame?: TRecordedFrame;
+    // entities, which were added during the current frame. Their components are copied at the end of the frame
+    protected addedEntities: Map<TRecordedAction, IEntity> = new Map();
+    protected _recording?: TRecording;
+
+    get recording(): TRecording | undefined {
+        return this._recording;
+    }
+
+    protected addAction(action: TRecordedAction) {
+        if (!this.currentFrame) {
+            throw new Error('Actions can only be recorded during a frame!');
+        }
+
+        this.currentFrame.actions.push(action);
+    }
+
+    protected addEntity(entity: IEntity) {
+        const action: TRecordedAction = { action: 'addEntity', id: entity.id, components: [] };
+
+        this.addAction(action);
+        this.addedEntities.set(action, entity);
+    }
+
+    endFrame(hash: number, entityIds: TEntityId[]) {
+        if (!this.currentFrame) {
+            throw new Error('No frame was started!');
+        }
+
+        let action;
+        let entity;
+
+        for ([action, entity] of this.addedEntities) {
+            (action as { components: Object[] }).components = Array.from(entity.getComponents()).map(component => deepCopy(component));
+        }
+
+        this.currentFrame.entityIds = entityIds;
+        this.currentFrame.hash = hash;
+        this.addedEntities.clear();
+        this.currentFrame = undefined;
+    }
+
+    recordActions(actions: ITransitionActions): ITransitionActions {
+        const recordingActions: ITransitionActions = Object.freeze({
+            get currentState(): IState | undefined { return actions.currentState; },
+            addEntity: (entity: IEntity) => {
+                actions.addEntity(entity);
+                this.addEntity(entity);
+            },
+            addResource: <T extends Object>(type: T | TTypeProto<T>, ...args: unknown[]) => {
+                actions.addResource(type, ...args);
+                this.addAction({
+                    action: 'addResource',
+                    resource: deepCopy(actions.getResource(typeof type == 'object' ? type.constructor as TTypeProto<T> : type)),
+                });
+            },
+            buildEntity: () => new EntityBuilder(recordingActions),
+            clearAndPush: async (state: IState) => {
+                this.addAction({ action: 'clearAndPush', state });
+                await actions.clearAndPush(state);
+            },
+            createEntity: () => {
+                const entity = new Entity();
+                recordingActions.addEntity(entity);
+                return entity;
+            },
+            getEntities: actions.getEntities,
+            getEntityById: actions.getEntityById,
+            getPrefabComponents: actions.getPrefabComponents,
+            getResource: actions.getResource,
+            hasResource: actions.hasResource,
+            maintain: actions.maintain,
+            merge: (world: IWorld) => {
+                const entities = Array.from(world.getEntities());
+
+                actions.merge(world);
+                entities.forEach(entity => this.addEntity(entity));
+            },
+            popState: async () => {
+                this.addAction({ action: 'popState' });
+                await actions.popState();
+            },
+            popToState: async (type: TTypeProto<IState>) => {
+                this.addAction({ action: 'popToState', type });
+                await actions.popToState(type);
+            },
+            pushState: async (state: IState) => {
+                this.addAction({ action: 'pushState', state });
+                await actions.pushState(state);
+            },
+            removeEntity: (entity: IEntity) => {
+                actions.removeEntity(entity);
+                this.addAction({ action: 'removeEntity', id: entity.id });
+            },
+            removeResource: <T extends Object>(type: TTypeProto<T>) => {
+                actions.removeResource(type);
+                this.addAction({ action: 'removeResource', type });
+            },
+            replaceResource: <T extends Object>(type: T | TTypeProto<T>, ...args: unknown[]) => {
+                actions.replaceResource(type, ...args);
+                this.addAction({
+                    action: 'replaceResource',
+                    resource: deepCopy(actions.getResource(typeof type == 'object' ? type.constructor as TTypeProto<T> : type)),
+                });
+            },
+            stopRun: actions.stopRun,
+            switchState: async (state: IState) => {
+                this.addAction({ action: 'switchState', state });
+                await actions.switchState(state);
+            },
+            toBinary: actions.toBinary,
+            toJSON: actions.toJSON,
+        });
+
+        return recordingActions;
+    }
+
+    start(snapshot: TSnapshot, states: IState[]) {
+        this._recording = {
+            frames: [],
+            snapshot,
+            states,
+        };
+    }
+
+    startFrame(delta: number, alpha: number) {
+        if (!this._recording) {
+            throw new Error('The recording was not started!');
+        }
+
+        this.currentFrame = {
+            actions: [],
+            alpha,
+            delta,
+            entityIds: [],
+            hash: 0,
+        };
+
+        this._recording.frames.push(this.currentFrame);
+    }
+}
@@ -0,0 +1,21 @@
+import {IEntity} from "./entity.spec";
+import {TTypeProto} from "./_.spec";
+
+/**
+ * Component, which links an entity to other entities
+ */
+export interface IRelation {
+    /**
+     * Entities, which are linked by this relation.
+     * The targets may be changed in place, also while the relation is part of a world
+     */
+    readonly targets: Set<IEntity>
+}
+
+export type TRelationProto<R extends IRelation = IRelation> = TTypeProto<R> & {
+    /**
+     * Remove the entity holding the relation when one of its targets is removed from the world
+     */
+    readonly cascadeDelete?: boolean
+};
+export default IRelation;
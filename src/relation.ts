@@ -0,0 +1,66 @@
+import IRelation from "./relation.spec";
+import IEntity from "./entity.spec";
+
+export * from './relation.spec';
+
+/**
+ * Targets of a relation, which report changes in place, so that the world can keep its index of relations up to date
+ */
+export class RelationTargets extends Set<IEntity> {
+    // set by the world, which holds the relation
+    onChange?: (target: IEntity, added: boolean) => void;
+
+    add(target: IEntity): this {
+        if (!this.has(target)) {
+            super.add(target);
+            this.onChange?.(target, true);
+        }
+
+        return this;
+    }
+
+    clear(): void {
+        for (const target of Array.from(this)) {
+            this.delete(target);
+        }
+    }
+
+    delete(target: IEntity): boolean {
+        const deleted = super.delete(target);
+        deleted && this.onChange?.(target, false);
+        return deleted;
+    }
+}
+
+/**
+ * Base class for relations. Relations are components, so each entity can only hold one relation of a kind,
+ * however a relation can link to any number of targets.
+ */
+export abstract class Relation implements IRelation {
+    static readonly cascadeDelete: boolean = false;
+    readonly targets: RelationTargets;
+
+    constructor(...targets: IEntity[]) {
+        this.targets = new RelationTargets(targets);
+    }
+}
+
+/**
+ * Hierarchy relation. Removing the parent from the world also removes all of its children.
+ */
+export class ChildOf extends Relation {
+    static readonly cascadeDelete = true;
+
+    constructor(parent?: IEntity) {
+        super(...(parent ? [parent] : []));
+    }
+
+    get parent(): IEntity | undefined {
+        return this.targets.values().next().value;
+    }
+}
+
+/**
+ * Ownership relation, for example between a character and the items in its inventory
+ */
+export class Owns extends Relation {}
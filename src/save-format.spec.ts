@@ -1,18 +1,77 @@
-import {IEntity} from "./entity";
+import {IEntity, TEntityId} from "./entity";
 import {TObjectProto} from "./_.spec";
+import {TRelationProto} from "./relation.spec";
+import IState from "./state.spec";
+import {Readable, Writable} from "stream";
 
 /// stores the constructor name and the data blob on indices 0 and 1 accordingly
 export type TComponent = [string, unknown];
-export type TSerializer = (component: unknown) => string;
+/// turns a component into a JSON-compatible data blob
+export type TSerializer = (component: unknown) => unknown;
 export type TDeserializer = (constructorName: string, data: unknown) => Object;
 export type TCustomDeserializer = (data: unknown) => Object;
-export type TEntity = TComponent[];
+export type TEntity = {
+    // entities without an id get a new one when they are loaded
+    id?: TEntityId
+    components: TComponent[]
+};
 export type TSaveFormat = TEntity[];
+/// transforms the entities of a save from one schema version to the next
+export type TMigration = (entities: TSaveFormat) => TSaveFormat;
+export type TSaveVersion = {
+    // version of the save file layout
+    format: number
+    // version of the user's component data, which is raised by migrations
+    schema: number
+};
+export type TSaveHeader = {
+    version: TSaveVersion
+    // registered resources, stored the same way as components
+    resources?: TComponent[]
+    // identifiers of the states on the state stack, from the bottom to the current state
+    states?: string[]
+};
+export type TSaveFile = TSaveHeader & {
+    entities: TSaveFormat
+};
+export type TSaveOptions = {
+    resources?: boolean
+    states?: boolean
+};
 
 export interface ISaveFormat {
+    /// copy an object with its registered serializer and deserializer, if there is a registered serializer for its type
+    clone(obj: Object): Object | undefined
+    /// deserialize components outside of a save. Relations do not get any targets
+    getComponents(components: TComponent[], deserializer?: TDeserializer): Object[]
     getEntities(deserializer?: TDeserializer): Iterable<IEntity>
+    /// read a stream with the header on the first line and one entity per line.
+    /// Migrations are called with one entity at a time, so they must not depend on other entities.
+    /// Relations to entities, which were already read, are resolved with getEntityById.
+    /// Without it, all read entities are kept in memory until the stream ends
+    getEntitiesFromStream(
+        stream: Readable,
+        deserializer?: TDeserializer,
+        getEntityById?: (id: TEntityId) => IEntity | undefined,
+    ): AsyncIterableIterator<IEntity>
+    getResources(): Iterable<Object>
+    getSchemaVersion(): number
+    getStates(): IState[] | undefined
     loadJSON(json: string): void
-    registerComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer): void
+    /// the id is stored in saves instead of the name of the type
+    registerComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string): void
+    registerMigration(fromVersion: number, toVersion: number, migration: TMigration): void
+    registerRelation(Relation: TRelationProto, id?: string): void
+    registerResource(Resource: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string): void
+    /// states are instances, so they need an explicit id, which is unique among all registered states
+    registerState(state: IState, id: string): void
     setEntities(entities?: IterableIterator<IEntity>): void
+    /// only registered resources are saved. Pass undefined in order to not save any resources.
+    /// Resources without a registered serializer are serialized with the given serializer
+    setResources(resources?: Iterable<Object>, serializer?: TSerializer): void
+    /// pass undefined in order to not save the state stack
+    setStates(states?: Iterable<IState>): void
     toJSON(serializer?: TSerializer): string
+    /// write the header on the first line and one entity per line
+    writeToStream(stream: Writable, entities: Iterable<IEntity>, serializer?: TSerializer): Promise<void>
 }
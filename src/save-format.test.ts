@@ -1,16 +1,40 @@
 import {expect} from 'chai';
-import {defaultDeserializer, SaveFormat} from "./save-format";
+import {defaultDeserializer, defaultSerializer, SaveFormat} from "./save-format";
+import {Entity, IEntity} from "./entity";
+import {ChildOf} from "./relation";
+import {State} from "./state";
+import {PassThrough, Readable} from "stream";
 
-const serializedWorld = JSON.stringify([
-    [],
-    [
-        ["Date", "1970-01-01T00:00:00.000Z"]
+const serializedWorld = JSON.stringify({
+    version: {
+        format: 1,
+        schema: 0,
+    },
+    entities: [
+        {
+            id: 1,
+            components: [],
+        },
+        {
+            id: 2,
+            components: [
+                ["Date", "1970-01-01T00:00:00.000Z"]
+            ],
+        },
+        {
+            id: 3,
+            components: [
+                ["Date", "1970-01-01T00:00:01.337Z"],
+                ["C1", {"a": 0}],
+            ],
+        },
     ],
-    [
-        ["Date", "1970-01-01T00:00:01.337Z"],
-        ["C1", {"a": 0}],
-    ]
-]);
+});
+const serializedWorldUnicode = [
+    '{"version":{"format":1,"schema":0}}',
+    '{"id":1,"components":[]}',
+    '{"id":2,"components":[["String","Grüße 🌍"]]}',
+].join('\n');
 const serializedWorldBasic = '[[]]';
 const serializedWorldCustom = JSON.stringify([
     [
@@ -30,6 +54,47 @@ describe('Test SaveFormat', () => {
         expect(SaveFormat.fromJSON(serializedWorld).toJSON()).eq(serializedWorld);
     });
 
+    it('legacy saves are loaded as schema version 0', () => {
+        const save = SaveFormat.fromJSON(serializedWorldCustom);
+        expect(save.toJSON()).eq('{"version":{"format":1,"schema":0},"entities":[{"components":[["C1",{"a":0}]]}]}');
+    });
+
+    it('migrations are applied step by step', () => {
+        const save = SaveFormat.fromJSON(serializedWorld);
+
+        save.registerMigration(0, 1, entities => entities.map(entity => ({
+            id: entity.id,
+            components: entity.components.map(component => component[0] == 'C1' ? ['C2', component[1]] : component),
+        })));
+        save.registerMigration(1, 3, entities => entities.map(entity => ({
+            id: entity.id,
+            components: entity.components.map(component => component[0] == 'C2' ? ['C2', {b: (component[1] as {a: number}).a + 1}] : component),
+        })));
+
+        const json = JSON.parse(save.toJSON());
+        expect(json.version.schema).eq(3);
+        expect(json.entities[2].components[1]).deep.eq(['C2', {b: 1}]);
+    });
+
+    it('migrations must be complete', () => {
+        const save = SaveFormat.fromJSON(serializedWorld);
+
+        save.registerMigration(1, 2, entities => entities);
+        expect(() => save.getEntities()).throws('No migration from schema version 0 was registered!');
+        expect(() => save.registerMigration(1, 3, entities => entities)).throws();
+        expect(() => save.registerMigration(3, 3, entities => entities)).throws();
+    });
+
+    it('newer saves are rejected', () => {
+        expect(() => SaveFormat.fromJSON(serializedWorld.replace('"schema":0', '"schema":1')).getEntities()).throws();
+        expect(() => SaveFormat.fromJSON(serializedWorld.replace('"format":1', '"format":2'))).throws('Save format version 2 is not supported!');
+    });
+
+    it('getEntities() keeps ids', () => {
+        const entities = Array.from(SaveFormat.fromJSON(JSON.stringify([{id: 4242, components: []}])).getEntities());
+        expect(entities[0].id).eq(4242);
+    });
+
     it('getEntities()', () => {
         const entities = Array.from(SaveFormat.fromJSON(serializedWorldBasic).getEntities());
 
@@ -73,4 +138,132 @@ describe('Test SaveFormat', () => {
         expect(components.length).eq(1);
         expect(components[0] instanceof C1).eq(true);
     });
+
+    it('setEntities() round-trip with default components', () => {
+        const entity = new Entity();
+        entity.addComponent(new Date(0));
+        entity.addComponent(new Map([['a', 1]]));
+        entity.addComponent(new Set([1, 2]));
+
+        const save = new SaveFormat();
+        save.setEntities([entity][Symbol.iterator]());
+
+        const loaded = Array.from(SaveFormat.fromJSON(save.toJSON(defaultSerializer())).getEntities())[0];
+        expect(loaded.getComponent(Date)?.getTime()).eq(0);
+        expect(loaded.getComponent(Map)?.get('a')).eq(1);
+        expect(loaded.getComponent(Set)?.has(2)).eq(true);
+    });
+
+    it('resources need a serializer', () => {
+        class Score { points = 42 }
+        const save = new SaveFormat();
+
+        save.registerResource(Score, data => Object.assign(new Score(), data));
+        expect(() => save.setResources([new Score()])).throws('Missing serializer for "Score"!');
+
+        save.setResources([new Score()], defaultSerializer(score => ({ points: (score as Score).points })));
+        expect(JSON.parse(save.toJSON()).resources).deep.eq([['Score', { points: 42 }]]);
+    });
+
+    it('states of the same type are told apart by their id', () => {
+        const menu = new State();
+        const level = new State();
+        const save = new SaveFormat();
+        const loaded = new SaveFormat();
+
+        save.registerState(menu, 'menu');
+        save.registerState(level, 'level');
+        save.setStates([menu, level]);
+        loaded.registerState(menu, 'menu');
+        loaded.registerState(level, 'level');
+        loaded.loadJSON(save.toJSON());
+
+        expect(loaded.getStates()).deep.eq([menu, level]);
+        expect(() => save.registerState(new State(), 'menu')).throws('State menu was already registered!');
+    });
+
+    it('stream round-trip', async () => {
+        const parent = new Entity();
+        const child = new Entity();
+        const stream = new PassThrough();
+        const lines: string[] = [];
+
+        child.addComponent(new ChildOf(parent));
+        parent.addComponent(new Date(0));
+
+        stream.on('data', chunk => lines.push(chunk.toString()));
+        // the child is saved before its parent
+        await new SaveFormat().writeToStream(stream, [child, parent]);
+        stream.end();
+
+        expect(lines.join('').split('\n').length).eq(4);
+
+        const entities = [];
+        for await (const entity of new SaveFormat().getEntitiesFromStream(Readable.from([lines.join('')]))) {
+            entities.push(entity);
+        }
+
+        expect(entities.length).eq(2);
+        expect(entities[0].getComponent(ChildOf)?.parent).eq(entities[1]);
+        expect(entities[1].getComponent(Date)?.getTime()).eq(0);
+    });
+
+    it('stream with links to earlier entities without lookup', async () => {
+        const parent = new Entity();
+        const child = new Entity();
+        const stream = new PassThrough();
+        const lines: string[] = [];
+
+        child.addComponent(new ChildOf(parent));
+
+        stream.on('data', chunk => lines.push(chunk.toString()));
+        await new SaveFormat().writeToStream(stream, [parent, child]);
+        stream.end();
+
+        const entities = [];
+        for await (const entity of new SaveFormat().getEntitiesFromStream(Readable.from([lines.join('')]))) {
+            entities.push(entity);
+        }
+
+        expect(entities.length).eq(2);
+        expect(entities[1].getComponent(ChildOf)?.parent).eq(entities[0]);
+    });
+
+    it('stream with links to earlier entities', async () => {
+        const parent = new Entity();
+        const child = new Entity();
+        const stream = new PassThrough();
+        const lines: string[] = [];
+        const loaded: Map<number, IEntity> = new Map();
+
+        child.addComponent(new ChildOf(parent));
+
+        stream.on('data', chunk => lines.push(chunk.toString()));
+        await new SaveFormat().writeToStream(stream, [parent, child]);
+        stream.end();
+
+        for await (const entity of new SaveFormat().getEntitiesFromStream(Readable.from([lines.join('')]), undefined, id => loaded.get(id))) {
+            loaded.set(entity.id, entity);
+        }
+
+        expect(loaded.size).eq(2);
+        expect(loaded.get(child.id)?.getComponent(ChildOf)?.parent).eq(loaded.get(parent.id));
+    });
+
+    it('stream with split chunks', async () => {
+        const bytes = Buffer.from(serializedWorldUnicode);
+        const chunks = [];
+
+        for (let i = 0; i < bytes.length; i += 3) {
+            chunks.push(bytes.subarray(i, i + 3));
+        }
+
+        const entities = [];
+        for await (const entity of new SaveFormat().getEntitiesFromStream(Readable.from(chunks))) {
+            entities.push(entity);
+        }
+
+        expect(entities.length).eq(2);
+        expect(entities[1].getComponent(String)?.valueOf()).eq('Grüße 🌍');
+    });
 });
@@ -1,14 +1,34 @@
-import {Entity, IEntity} from "./entity";
+import {Entity, IEntity, TEntityId} from "./entity";
 import {
     ISaveFormat,
     TComponent,
     TCustomDeserializer,
     TDeserializer,
     TEntity,
+    TMigration,
+    TSaveFile,
     TSaveFormat,
+    TSaveHeader,
     TSerializer
 } from "./save-format.spec";
 import {TObjectProto} from "./_.spec";
+import {ChildOf, Owns, Relation} from "./relation";
+import {TRelationProto} from "./relation.spec";
+import IState from "./state.spec";
+import {Readable, Writable} from "stream";
+import {ITypeRegistry, TypeRegistry} from "./type-registry";
+
+export const saveFormatVersion = 1;
+
+/**
+ * Make sure that a save was not written by a newer version of the save format, before its data is read
+ * @param version
+ */
+export const checkSaveFormatVersion = function (version: number) {
+    if (version > saveFormatVersion) {
+        throw new Error(`Save format version ${version} is not supported!`);
+    }
+};
 
 export const defaultDeserializer = function (customDeserializer?: TDeserializer): TDeserializer {
     return (constructorName: string, data: unknown) => {
@@ -21,6 +41,14 @@ export const defaultDeserializer = function (customDeserializer?: TDeserializer)
                 return data as Array<unknown>;
             }
 
+            case 'boolean': {
+                if (typeof data != 'boolean') {
+                    throw new Error(`Cannot deserialize Boolean with data of type ${typeof data}! Boolean expected!`);
+                }
+
+                return new Boolean(data);
+            }
+
             case 'date': {
                 if (typeof data != 'string') {
                     throw new Error(`Cannot deserialize Date with data of type ${typeof data}! String expected!`);
@@ -37,6 +65,14 @@ export const defaultDeserializer = function (customDeserializer?: TDeserializer)
                 return new Map(data as [unknown, unknown][]);
             }
 
+            case 'number': {
+                if (typeof data != 'number') {
+                    throw new Error(`Cannot deserialize Number with data of type ${typeof data}! Number expected!`);
+                }
+
+                return new Number(data);
+            }
+
             case 'object': {
                 if (typeof data != 'object') {
                     throw new Error(`Cannot deserialize Object with data of type ${typeof data}! Object expected!`);
@@ -70,78 +106,508 @@ export const defaultDeserializer = function (customDeserializer?: TDeserializer)
     }
 };
 
+export const defaultSerializer = function (customSerializer?: TSerializer): TSerializer {
+    return (component: unknown) => {
+        switch ((component as Object).constructor.name.toLowerCase()) {
+            case 'array': {
+                return component;
+            }
+
+            case 'boolean':
+            case 'number':
+            case 'string': {
+                return (component as Boolean | Number | String).valueOf();
+            }
+
+            case 'date': {
+                return (component as Date).toISOString();
+            }
+
+            case 'map': {
+                return Array.from((component as Map<unknown, unknown>).entries());
+            }
+
+            case 'object': {
+                return component;
+            }
+
+            case 'set': {
+                return Array.from(component as Set<unknown>);
+            }
+        }
+
+        if (!customSerializer) {
+            throw new Error(`Missing serializer for "${(component as Object).constructor.name}"!`);
+        }
+
+        return customSerializer(component);
+    }
+};
+
+const readLines = async function* (stream: Readable): AsyncIterableIterator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let chunk;
+    let index;
+
+    for await (chunk of stream) {
+        buffer += typeof chunk == 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+        while ((index = buffer.indexOf('\n')) >= 0) {
+            yield buffer.substring(0, index);
+            buffer = buffer.substring(index + 1);
+        }
+    }
+
+    yield buffer + decoder.decode();
+};
+
+const writeLine = function (stream: Writable, line: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onError = (error: Error) => reject(error);
+
+        stream.once('error', onError);
+
+        // wait for the stream to drain, so that the data is not buffered in memory
+        if (stream.write(line + '\n')) {
+            stream.off('error', onError);
+            resolve();
+        }
+        else {
+            stream.once('drain', () => {
+                stream.off('error', onError);
+                resolve();
+            });
+        }
+    });
+};
+
 export class SaveFormat implements ISaveFormat {
     protected entities: TSaveFormat = [];
+    // entities set from a world still reference the live components, which have to be serialized on save
+    protected hasLiveComponents = false;
+    protected migrations: Map<number, {toVersion: number, migration: TMigration}> = new Map();
+    protected relations: Map<string, TRelationProto> = new Map();
+    protected resources?: TComponent[];
+    protected resourceSerde: Map<string, {serializer?: TSerializer, deserializer: TCustomDeserializer}> = new Map();
+    // schema version of the stored entities
+    protected schemaVersion = 0;
     protected serde: Map<string, {serializer?: TSerializer, deserializer: TCustomDeserializer}> = new Map();
+    protected states?: string[];
+    protected stateIds: Map<string, IState> = new Map();
+    // ids of the saved types, which do not depend on the (possibly minified) names of the classes
+    protected typeRegistry: ITypeRegistry;
 
-    static fromJSON(json: string): SaveFormat {
-        const save = new SaveFormat();
+    static fromJSON<T extends SaveFormat>(this: new () => T, json: string): T {
+        const save = new this();
         save.loadJSON(json);
         return save;
     }
 
-    constructor(data: { entities?: IterableIterator<IEntity> } = {}) {
+    constructor(data: { entities?: IterableIterator<IEntity>, typeRegistry?: ITypeRegistry } = {}) {
+        this.typeRegistry = data.typeRegistry ?? new TypeRegistry();
+        this.registerRelation(ChildOf);
+        this.registerRelation(Owns);
+
         if (data.entities) {
             this.setEntities(data.entities);
         }
     }
 
+    clone(obj: Object): Object | undefined {
+        const id = this.typeRegistry.getId(obj.constructor as TObjectProto);
+        const serde = this.serde.get(id) ?? this.resourceSerde.get(id);
+
+        if (!serde?.serializer) {
+            return;
+        }
+
+        return serde.deserializer(serde.serializer(obj));
+    }
+
     loadJSON(json: string) {
-        this.entities = JSON.parse(json);
+        const data = JSON.parse(json) as TSaveFile | (TEntity | TComponent[])[];
+
+        this.hasLiveComponents = false;
+
+        // saves from before versioning was introduced only contain the list of entities
+        if (Array.isArray(data)) {
+            this.resources = undefined;
+            this.schemaVersion = 0;
+            this.states = undefined;
+            // saves from before entity ids were introduced only contain the list of components per entity
+            this.entities = data.map(entity => Array.isArray(entity)
+                ? { components: entity }
+                : entity);
+            return;
+        }
+
+        checkSaveFormatVersion(data.version.format);
+        this.loadSaveFile(data);
+    }
+
+    protected loadSaveFile(data: TSaveFile) {
+        this.entities = data.entities;
+        this.resources = data.resources;
+        this.schemaVersion = data.version.schema;
+        this.states = data.states;
+    }
+
+    getResources(): Iterable<Object> {
+        return (this.resources ?? []).map(resource => {
+            const serde = this.resourceSerde.get(resource[0]);
+
+            if (!serde) {
+                throw new Error(`No deserializer registered for resource "${resource[0]}"!`);
+            }
+
+            return serde.deserializer(resource[1]);
+        });
+    }
+
+    getSchemaVersion(): number {
+        let version = 0;
+
+        for (const step of this.migrations.values()) {
+            version = Math.max(version, step.toVersion);
+        }
+
+        return version;
+    }
+
+    getStates(): IState[] | undefined {
+        return this.states?.map(id => {
+            const state = this.stateIds.get(id);
+
+            if (!state) {
+                throw new Error(`State "${id}" was not registered!`);
+            }
+
+            return state;
+        });
+    }
+
+    protected getMigrations(fromVersion: number): TMigration[] {
+        const targetVersion = this.getSchemaVersion();
+        const migrations = [];
+        let version = fromVersion;
+        let step;
+
+        if (version > targetVersion) {
+            throw new Error(`Save schema version ${version} is newer than the supported version ${targetVersion}!`);
+        }
+
+        while (version < targetVersion) {
+            step = this.migrations.get(version);
+
+            if (!step) {
+                throw new Error(`No migration from schema version ${version} was registered!`);
+            }
+
+            migrations.push(step.migration);
+            version = step.toVersion;
+        }
+
+        return migrations;
+    }
+
+    protected migrate() {
+        for (const migration of this.getMigrations(this.schemaVersion)) {
+            this.entities = migration(this.entities);
+        }
+
+        this.schemaVersion = this.getSchemaVersion();
+    }
+
+    protected addComponents(entity: IEntity, components: TComponent[], deserializer: TDeserializer, getTarget: (id: TEntityId) => IEntity | undefined) {
+        for (const component of components) {
+            entity.addComponent(this.deserializeComponent(component, deserializer, getTarget));
+        }
     }
 
-    getEntities(deserializer?: TDeserializer): Iterable<IEntity> {
+    protected deserializeComponent(component: TComponent, deserializer: TDeserializer, getTarget: (id: TEntityId) => IEntity | undefined): Object {
+        let relation;
+        let target;
+
+        if (this.relations.has(component[0])) {
+            relation = new (this.relations.get(component[0]) as TRelationProto)();
+
+            for (const id of component[1] as TEntityId[]) {
+                target = getTarget(id);
+                target && relation.targets.add(target);
+            }
+
+            return relation;
+        }
+
+        if (this.serde.has(component[0])) {
+            return this.serde.get(component[0])!.deserializer(component[1]);
+        }
+
+        return deserializer(component[0], component[1]);
+    }
+
+    getComponents(components: TComponent[], deserializer: TDeserializer = defaultDeserializer()): Object[] {
+        // there are no entities to link to outside of a save
+        return components.map(component => this.deserializeComponent(component, deserializer, () => undefined));
+    }
+
+    getEntities(deserializer: TDeserializer = defaultDeserializer()): Iterable<IEntity> {
         const self = this;
+
+        if (!this.hasLiveComponents) {
+            this.migrate();
+        }
+
         return {
             *[Symbol.iterator](): Iterator<IEntity> {
-                let entity;
-                let entityData: TEntity;
-                let component: TComponent;
-
-                for (entityData of self.entities) {
-                    entity = new Entity();
-
-                    for (component of entityData) {
-                        if (self.serde.has(component[0])) {
-                            entity.addComponent(self.serde.get(component[0])!.deserializer(component[1]));
-                        }
-                        else if (deserializer) {
-                            entity.addComponent(deserializer(component[0], component[1]));
-                        }
-                        else throw new Error(`No deserializer provided for component of type "${component[0]}"!`);
-                    }
-
-                    yield entity;
+                // relations may link to entities, which come later in the save, so all entities have to exist up front
+                const entities = self.entities.map(entityData => new Entity(undefined, entityData.id));
+                const entityIds = new Map(entities.map(entity => [entity.id, entity]));
+
+                for (let i = 0; i < self.entities.length; i++) {
+                    self.addComponents(entities[i], self.entities[i].components, deserializer, id => entityIds.get(id));
+                    yield entities[i];
                 }
             }
         };
     }
 
-    registerComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer) {
-        if (this.serde.has(Component.name)) throw new Error(`Component ${Component.name} was already registered!`);
-        this.serde.set(Component.name, { serializer, deserializer });
+    async *getEntitiesFromStream(
+        stream: Readable,
+        deserializer: TDeserializer = defaultDeserializer(),
+        getEntityById?: (id: TEntityId) => IEntity | undefined,
+    ): AsyncIterableIterator<IEntity> {
+        // relations may link to entities, which come later in the stream, so they are created on first sight.
+        // With getEntityById, only these are kept until they are loaded, so that the memory does not grow with the size of the stream.
+        // Otherwise, all loaded entities are kept, in order to resolve links back to them
+        const pendingEntities: Map<TEntityId, IEntity> = new Map();
+        const getEntity = (id: TEntityId) => {
+            let entity = pendingEntities.get(id) ?? getEntityById?.(id);
+
+            if (!entity) {
+                entity = new Entity(undefined, id);
+                pendingEntities.set(id, entity);
+            }
+
+            return entity;
+        };
+        let entities: TSaveFormat;
+        let entityData;
+        let header: TSaveHeader | undefined;
+        let line;
+        let migrations: TMigration[] = [];
+        let migration;
+
+        this.hasLiveComponents = false;
+        this.entities = [];
+
+        for await (line of readLines(stream)) {
+            if (line.trim() == '') {
+                continue;
+            }
+
+            if (!header) {
+                header = JSON.parse(line) as TSaveHeader;
+                checkSaveFormatVersion(header.version.format);
+                migrations = this.getMigrations(header.version.schema);
+                this.loadSaveFile({ ...header, entities: [] });
+                this.schemaVersion = this.getSchemaVersion();
+                continue;
+            }
+
+            // migrations are applied to each entity on its own, so that the whole save never has to be in memory
+            entities = [JSON.parse(line) as TEntity];
+            for (migration of migrations) {
+                entities = migration(entities);
+            }
+
+            for (entityData of entities) {
+                // the loaded entity must not be resolved to an existing one with the same id
+                const entity = entityData.id === undefined
+                    ? new Entity()
+                    : pendingEntities.get(entityData.id) ?? new Entity(undefined, entityData.id);
+
+                pendingEntities.set(entity.id, entity);
+                this.addComponents(entity, entityData.components, deserializer, getEntity);
+                getEntityById && pendingEntities.delete(entity.id);
+                yield entity;
+            }
+        }
+
+        if (!header) {
+            throw new Error('The stream does not contain a save header!');
+        }
+    }
+
+    registerComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string) {
+        id = this.typeRegistry.register(Component, id);
+        if (this.serde.has(id)) throw new Error(`Component ${id} was already registered!`);
+        this.serde.set(id, { serializer, deserializer });
+    }
+
+    registerMigration(fromVersion: number, toVersion: number, migration: TMigration) {
+        if (toVersion <= fromVersion) throw new Error(`Migration from schema version ${fromVersion} must lead to a higher version, not ${toVersion}!`);
+        if (this.migrations.has(fromVersion)) throw new Error(`Migration from schema version ${fromVersion} was already registered!`);
+        this.migrations.set(fromVersion, { toVersion, migration });
+    }
+
+    registerRelation(Relation: TRelationProto, id?: string) {
+        id = this.typeRegistry.register(Relation, id);
+        if (this.relations.has(id)) throw new Error(`Relation ${id} was already registered!`);
+        this.relations.set(id, Relation);
+    }
+
+    registerResource(Resource: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string) {
+        id = this.typeRegistry.register(Resource, id);
+        if (this.resourceSerde.has(id)) throw new Error(`Resource ${id} was already registered!`);
+        this.resourceSerde.set(id, { serializer, deserializer });
+    }
+
+    registerState(state: IState, id: string) {
+        if (this.stateIds.has(id)) throw new Error(`State ${id} was already registered!`);
+        this.stateIds.set(id, state);
     }
 
     setEntities(entities: IterableIterator<IEntity>) {
-        let entity;
-        let components: TComponent[];
-        let component;
+        const entityList = Array.from(entities);
+        const savedEntities = new Set(entityList);
 
-        this.entities.length = 0;
+        this.hasLiveComponents = true;
+        this.entities = entityList.map(entity => this.toSaveData(entity, savedEntities));
+    }
 
-        for (entity of entities) {
-            components = [];
+    setResources(resources?: Iterable<Object>, serializer: TSerializer = defaultSerializer()) {
+        if (!resources) {
+            this.resources = undefined;
+            return;
+        }
 
-            for (component of entity.getComponents()) {
-                components.push([component.constructor.name, component]);
+        let id;
+        let resource;
+        let serde;
+
+        this.resources = [];
+
+        for (resource of resources) {
+            id = this.typeRegistry.getId(resource.constructor as TObjectProto);
+            serde = this.resourceSerde.get(id);
+
+            // resources without a registered serializer are serialized like components
+            if (serde) {
+                this.resources.push([id, (serde.serializer ?? serializer)(resource)]);
+            }
+        }
+    }
+
+    setStates(states?: Iterable<IState>) {
+        if (!states) {
+            this.states = undefined;
+            return;
+        }
+
+        const ids = new Map(Array.from(this.stateIds).map(([id, state]) => [state, id]));
+
+        this.states = Array.from(states).map(state => {
+            const id = ids.get(state);
+
+            if (id === undefined) {
+                throw new Error(`State ${state.constructor.name} was not registered!`);
             }
 
-            this.entities.push(components);
+            return id;
+        });
+    }
+
+    /// the returned data still references the live components
+    protected toSaveData(entity: IEntity, savedEntities: Set<IEntity>): TEntity {
+        const components: TComponent[] = [];
+        let component;
+
+        for (component of entity.getComponents()) {
+            if (component instanceof Relation) {
+                // links to entities, which are not part of the save, are dropped
+                components.push([this.typeRegistry.getId(component.constructor as TObjectProto), Array.from(component.targets)
+                    .filter(target => savedEntities.has(target))
+                    .map(target => target.id)]);
+            }
+            else {
+                components.push([this.typeRegistry.getId(component.constructor as TObjectProto), component]);
+            }
+        }
+
+        return {
+            id: entity.id,
+            components,
+        };
+    }
+
+    protected serializeComponent(component: TComponent, serializer: TSerializer): TComponent {
+        // relations are already stored as list of entity ids
+        if (this.relations.has(component[0])) {
+            return component;
         }
+
+        const serde = this.serde.get(component[0]);
+        if (serde) {
+            return [component[0], serde.serializer ? serde.serializer(component[1]) : component[1]];
+        }
+
+        return [component[0], serializer(component[1])];
+    }
+
+    protected serializeEntities(serializer: TSerializer): TSaveFormat {
+        if (!this.hasLiveComponents) {
+            this.migrate();
+            return this.entities;
+        }
+
+        // live components always follow the current schema
+        this.schemaVersion = this.getSchemaVersion();
+        return this.entities.map(entity => this.serializeEntity(entity, serializer));
+    }
+
+    protected serializeEntity(entity: TEntity, serializer: TSerializer): TEntity {
+        return {
+            id: entity.id,
+            components: entity.components.map(component => this.serializeComponent(component, serializer)),
+        };
     }
 
-    toJSON(serializer?: TSerializer): string {
-        // todo: implement serializer
-        return JSON.stringify(this.entities);
+    protected serializeSave(serializer: TSerializer): TSaveFile {
+        const entities = this.serializeEntities(serializer);
+
+        return {
+            version: {
+                format: saveFormatVersion,
+                schema: this.schemaVersion,
+            },
+            entities,
+            resources: this.resources,
+            states: this.states,
+        };
+    }
+
+    toJSON(serializer: TSerializer = defaultSerializer()): string {
+        return JSON.stringify(this.serializeSave(serializer));
+    }
+
+    async writeToStream(stream: Writable, entities: Iterable<IEntity>, serializer: TSerializer = defaultSerializer()): Promise<void> {
+        const savedEntities = new Set(entities);
+        const header: TSaveHeader = {
+            version: {
+                format: saveFormatVersion,
+                schema: this.getSchemaVersion(),
+            },
+            resources: this.resources,
+            states: this.states,
+        };
+        let entity;
+
+        await writeLine(stream, JSON.stringify(header));
+
+        for (entity of savedEntities) {
+            await writeLine(stream, JSON.stringify(this.serializeEntity(this.toSaveData(entity, savedEntities), serializer)));
+        }
     }
 }
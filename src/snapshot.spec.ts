@@ -0,0 +1,13 @@
+import {IEntity} from "./entity.spec";
+import {TObjectProto} from "./_.spec";
+
+/// copies which are not affected by later changes to the world. They are frozen and shared between snapshots
+export type TSnapshot = {
+    // components of all entities in the world
+    readonly entities: ReadonlyMap<IEntity, ReadonlyArray<Object>>
+    // all resources, except for systems
+    readonly resources: ReadonlyMap<TObjectProto, Object>
+};
+
+/// create a copy of an object, or return undefined in order to use the default deep copy
+export type TCloneFn = (obj: Object) => Object | undefined;
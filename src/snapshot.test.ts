@@ -0,0 +1,70 @@
+import {expect} from 'chai';
+import {deepCopy, deepEqual, deepFreeze, restoreInPlace} from "./snapshot";
+import {Entity} from "./entity";
+import {RelationTargets} from "./relation";
+
+class Position {
+    x = 0;
+    y = 0;
+}
+
+describe('Test Snapshot helpers', () => {
+    it('deepCopy() keeps prototypes and entity references', () => {
+        const entity = new Entity();
+        const original = {
+            date: new Date(1337),
+            entity,
+            list: [new Position()],
+            map: new Map([['a', new Position()]]),
+            number: new Number(42),
+            set: new Set([entity]),
+            targets: new RelationTargets([entity]),
+        };
+        const copy = deepCopy(original);
+
+        expect(copy).not.eq(original);
+        expect(copy.date.getTime()).eq(1337);
+        expect(copy.entity).eq(entity);
+        expect(copy.list[0]).instanceOf(Position);
+        expect(copy.list[0]).not.eq(original.list[0]);
+        expect(copy.map.get('a')).instanceOf(Position);
+        expect(copy.number.valueOf()).eq(42);
+        expect(copy.set.has(entity)).eq(true);
+        expect(copy.targets).instanceOf(RelationTargets);
+        expect(copy.targets.has(entity)).eq(true);
+        expect(deepEqual(copy, original)).eq(true);
+    });
+
+    it('deepEqual() compares prototypes and values', () => {
+        const a = new Position();
+        const b = new Position();
+
+        expect(deepEqual(a, b)).eq(true);
+        expect(deepEqual(a, {x: 0, y: 0})).eq(false);
+
+        b.y = 1;
+        expect(deepEqual(a, b)).eq(false);
+        expect(deepEqual([new Date(0)], [new Date(0)])).eq(true);
+        expect(deepEqual(new Map([[1, 2]]), new Map([[1, 3]]))).eq(false);
+    });
+
+    it('deepFreeze()', () => {
+        const frozen = deepFreeze({a: {b: [1]}});
+
+        expect(Object.isFrozen(frozen.a)).eq(true);
+        expect(Object.isFrozen(frozen.a.b)).eq(true);
+    });
+
+    it('restoreInPlace()', () => {
+        const live = new Position();
+        const copy = deepFreeze(Object.assign(new Position(), {x: 4, y: 2}));
+
+        live.x = 10;
+        (live as unknown as {z: number}).z = 1;
+
+        expect(restoreInPlace(live, copy)).eq(true);
+        expect(deepEqual(live, copy)).eq(true);
+        expect(restoreInPlace(new Number(1), new Number(2))).eq(false);
+        expect(restoreInPlace({}, new Position())).eq(false);
+    });
+});
@@ -0,0 +1,206 @@
+import {Entity} from "./entity";
+import {TCloneFn} from "./snapshot.spec";
+
+export * from './snapshot.spec';
+
+type TIndexable = { [key: string]: unknown };
+
+const isBoxedPrimitive = function (value: Object): boolean {
+    return value instanceof Boolean || value instanceof Number || value instanceof String;
+};
+
+/**
+ * Copy a value including all nested objects, keeping their prototypes.
+ * Entities are not copied, but referenced, so that relations keep pointing to the same entities.
+ * @param value
+ * @param clone custom copy function, which takes precedence over the default copy
+ */
+export const deepCopy = function <T>(value: T, clone?: TCloneFn): T {
+    if (typeof value != 'object' || value === null || value instanceof Entity) {
+        return value;
+    }
+
+    const obj = value as unknown as Object;
+    const custom = clone?.(obj);
+
+    if (custom) {
+        return custom as T;
+    }
+
+    if (Array.isArray(obj)) {
+        return obj.map(item => deepCopy(item, clone)) as unknown as T;
+    }
+
+    if (obj instanceof Date) {
+        return new Date(obj.getTime()) as unknown as T;
+    }
+
+    if (obj instanceof Map) {
+        return Object.setPrototypeOf(
+            new Map(Array.from(obj, ([key, item]) => [deepCopy(key, clone), deepCopy(item, clone)])),
+            Object.getPrototypeOf(obj),
+        );
+    }
+
+    if (obj instanceof Set) {
+        return Object.setPrototypeOf(new Set(Array.from(obj, item => deepCopy(item, clone))), Object.getPrototypeOf(obj));
+    }
+
+    if (isBoxedPrimitive(obj) || ArrayBuffer.isView(obj)) {
+        return new (obj.constructor as new (value: unknown) => T)(obj instanceof DataView ? obj.buffer.slice(0) : obj.valueOf());
+    }
+
+    const copy = Object.create(Object.getPrototypeOf(obj)) as TIndexable;
+
+    for (const key of Object.keys(obj)) {
+        copy[key] = deepCopy((obj as TIndexable)[key], clone);
+    }
+
+    return copy as unknown as T;
+};
+
+/**
+ * Compare two values including all nested objects.
+ * Entities and the keys of maps and sets are compared by reference.
+ * @param a
+ * @param b
+ */
+export const deepEqual = function (a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+
+    if (typeof a != 'object' || typeof b != 'object' || a === null || b === null) {
+        return false;
+    }
+
+    if (Object.getPrototypeOf(a) != Object.getPrototypeOf(b) || a instanceof Entity) {
+        return false;
+    }
+
+    if (a instanceof Date || isBoxedPrimitive(a)) {
+        return Object.is(a.valueOf(), (b as Object).valueOf());
+    }
+
+    if (a instanceof Map) {
+        const mapB = b as Map<unknown, unknown>;
+        return a.size == mapB.size && Array.from(a).every(([key, item]) => mapB.has(key) && deepEqual(item, mapB.get(key)));
+    }
+
+    if (a instanceof Set) {
+        const setB = b as Set<unknown>;
+        return a.size == setB.size && Array.from(a).every(item => setB.has(item));
+    }
+
+    if (Array.isArray(a) || ArrayBuffer.isView(a)) {
+        const arrayA = (a instanceof DataView ? new Uint8Array(a.buffer) : a) as ArrayLike<unknown>;
+        const arrayB = (b instanceof DataView ? new Uint8Array(b.buffer) : b) as ArrayLike<unknown>;
+
+        if (arrayA.length != arrayB.length) {
+            return false;
+        }
+
+        for (let i = 0; i < arrayA.length; i++) {
+            if (!deepEqual(arrayA[i], arrayB[i])) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    const keysA = Object.keys(a as Object);
+    const keysB = Object.keys(b as Object);
+
+    return keysA.length == keysB.length
+        && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual((a as TIndexable)[key], (b as TIndexable)[key]));
+};
+
+/**
+ * Freeze an object and all nested objects, except for entities.
+ * The content of maps and sets cannot be frozen.
+ * @param value
+ */
+export const deepFreeze = function <T>(value: T): T {
+    if (typeof value != 'object' || value === null || value instanceof Entity || Object.isFrozen(value)) {
+        return value;
+    }
+
+    // typed arrays with content cannot be frozen
+    if (ArrayBuffer.isView(value)) {
+        return value;
+    }
+
+    Object.freeze(value);
+
+    if (value instanceof Map) {
+        value.forEach((item, key) => {
+            deepFreeze(key);
+            deepFreeze(item);
+        });
+    }
+    else if (value instanceof Set) {
+        value.forEach(item => deepFreeze(item));
+    }
+    else {
+        for (const key of Object.keys(value)) {
+            deepFreeze((value as unknown as TIndexable)[key]);
+        }
+    }
+
+    return value;
+};
+
+/**
+ * Overwrite the content of an object with a copy of the content of another object of the same type,
+ * so that all references to the target stay valid.
+ * Returns false, if the target cannot be changed in place.
+ * @param target
+ * @param source
+ */
+export const restoreInPlace = function (target: Object, source: Object): boolean {
+    if (
+        Object.getPrototypeOf(target) != Object.getPrototypeOf(source)
+        || target instanceof Entity
+        || isBoxedPrimitive(target)
+        || ArrayBuffer.isView(target)
+        || Object.isFrozen(target)
+    ) {
+        return false;
+    }
+
+    if (Array.isArray(target)) {
+        target.length = 0;
+        target.push(...deepCopy(source as unknown[]));
+        return true;
+    }
+
+    if (target instanceof Date) {
+        target.setTime((source as Date).getTime());
+        return true;
+    }
+
+    if (target instanceof Map) {
+        target.clear();
+        deepCopy(source as Map<unknown, unknown>).forEach((item, key) => target.set(key, item));
+        return true;
+    }
+
+    if (target instanceof Set) {
+        target.clear();
+        deepCopy(source as Set<unknown>).forEach(item => target.add(item));
+        return true;
+    }
+
+    for (const key of Object.keys(target)) {
+        if (!Object.prototype.hasOwnProperty.call(source, key)) {
+            delete (target as TIndexable)[key];
+        }
+    }
+
+    for (const key of Object.keys(source)) {
+        (target as TIndexable)[key] = deepCopy((source as TIndexable)[key]);
+    }
+
+    return true;
+};
@@ -7,6 +7,11 @@ export interface IState {
      */
     readonly systems: Set<ISystem<TSystemData>>
 
+    /**
+     * Keep the systems of the states below running while this state is on top, for example for a HUD or a pause menu
+     */
+    readonly transparent?: boolean
+
     /**
      * Called to run tasks for state activation in the PDA
      */
@@ -28,6 +33,12 @@ export interface IState {
      * @param actions
      */
     destroy(actions: ITransitionActions): void | Promise<void>
+
+    /**
+     * Select the systems of the states below a transparent state, which keep running. By default, all of them do
+     * @param system
+     */
+    filterUnderlyingSystem?(system: ISystem<TSystemData>): boolean
 }
 
 export type TStateProto = { new(): IState };
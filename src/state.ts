@@ -6,9 +6,11 @@ export * from './state.spec';
 
 export class State implements IState {
     protected _systems: Set<ISystem<TSystemData>>;
+    readonly transparent: boolean;
 
-    constructor(systems: Set<ISystem<TSystemData>> = new Set()) {
+    constructor(systems: Set<ISystem<TSystemData>> = new Set(), transparent = false) {
         this._systems = systems;
+        this.transparent = transparent;
     }
 
     get systems(): Set<ISystem<TSystemData>> {
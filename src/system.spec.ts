@@ -2,10 +2,10 @@ import {ISystemActions} from "./world.spec";
 import {TTypeProto} from "./_.spec";
 import {IEntity} from "./entity";
 
-export type TSystemData = { [fieldName: string]: Object };
+export type TSystemData = { [fieldName: string]: Object | undefined };
 
 export class SystemData implements TSystemData {
-    [fieldName: string]: Object;
+    [fieldName: string]: Object | undefined;
 }
 
 /**
@@ -1,3 +1,4 @@
 class TestBase { a = 0 }
 export class C1 extends TestBase {}
 export class C2 extends TestBase {}
+export class E1 extends TestBase {}
@@ -1,10 +1,14 @@
 import {assert} from "chai";
+import * as path from "path";
+import {PassThrough} from "stream";
 import {ECS, IWorld} from "../..";
 import * as Components from "./components";
 import * as Systems from "./systems";
 import {S1Data, S2Data, THandlerFn1, THandlerFn2} from "./systems";
-import {With, Without} from "../index";
-import {defaultDeserializer} from "../save-format";
+import {ChildOf, IEntity, ISystem, IState, Owns, Recorder, RelatedTo, State, TRecording, TSystemData, With, Without} from "../index";
+import {defaultDeserializer, defaultSerializer} from "../save-format";
+import {Time} from "../time";
+import {SystemWorker} from "../worker";
 
 
 describe('Manage Resources', () => {
@@ -128,6 +132,99 @@ describe('Run Systems', () => {
         assert(c1.a > 0, 'System did not operate on component');
     });
 
+    it('run with fixed timestep', async () => {
+        const world = ecs.buildWorld().withSystem(new Systems.S1(op)).build();
+        const deltas: number[] = [];
+
+        await world.run({
+            fixedTimestep: 0.01,
+            transitionHandler: async actions => {
+                const time = actions.getResource(Time);
+                deltas.push(time.delta);
+
+                if (time.tick >= 3) {
+                    actions.stopRun();
+                }
+            },
+        });
+
+        const time = world.getResource(Time);
+        assert.deepEqual(deltas, [0.01, 0.01, 0.01], 'Iterations did not use the fixed timestep');
+        assert.closeTo(time.elapsed, 0.03, 1e-9, 'Elapsed time does not match the number of steps');
+        assert(time.alpha >= 0 && time.alpha < 1, 'Interpolation alpha out of range');
+    });
+
+    it('run criteria', async () => {
+        let addedRuns = 0;
+        let frame = 0;
+        let predicateRuns = 0;
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.IncrementS1(), [], { runCriteria: { interval: 2 } })
+            .withSystem(new Systems.AddedC1System(() => addedRuns++), [], { runCriteria: { skipWhenEmpty: true } })
+            .withSystem(new Systems.NoDataSystem(() => predicateRuns++), [], {
+                runCriteria: { predicate: actions => actions.getResource(Number).valueOf() > 0 },
+            })
+            .build();
+        const c1 = world.buildEntity().with(Components.C1).build().getComponent(Components.C1);
+
+        world.addResource(new Number(0));
+        await world.run({
+            transitionHandler: async actions => {
+                if (++frame == 2) {
+                    actions.replaceResource(new Number(1));
+                }
+
+                if (frame >= 4) {
+                    actions.stopRun();
+                }
+            }
+        });
+
+        assert.equal(c1?.a, 2, 'Interval was not respected');
+        assert.equal(addedRuns, 1, 'System with empty data set was not skipped');
+        assert.equal(predicateRuns, 2, 'Predicate was not respected');
+    });
+
+    it('run in worker', async function () {
+        this.timeout(20000);
+
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.IncrementS1(), [], { worker: { module: path.join(__dirname, 'systems') } })
+            .build();
+        const entity = world.buildEntity().with(Components.C1).build();
+        const c1 = entity.getComponent(Components.C1);
+
+        await world.dispatch();
+        await world.dispatch();
+
+        assert(c1, 'Could not fetch component'); if (!c1) return;
+        assert(c1 instanceof Components.C1, 'Component was replaced');
+        assert.equal(c1.a, 2, 'Worker did not write back component changes');
+    });
+
+    it('report worker failures', async function () {
+        this.timeout(20000);
+
+        const worker = new SystemWorker(new Systems.IncrementS1(), { module: path.join(__dirname, 'systems'), exportName: 'Missing' });
+
+        worker.start();
+
+        try {
+            await worker.run(new Set()).then(() => assert.fail('Run did not fail'), error => assert.match(error.message, /does not export a system named Missing/));
+            await worker.run(new Set()).then(() => assert.fail('Next run did not fail'), error => assert.match(error.message, /does not export a system named Missing/));
+        }
+        finally {
+            await worker.terminate();
+        }
+    });
+
+    it('reject change filters in worker', () => {
+        assert.throws(
+            () => ecs.buildWorld().withSystem(new Systems.ChangedC1System(() => {}), [], { worker: { module: path.join(__dirname, 'systems') } }),
+            'System ChangedC1System cannot run in a worker, because it filters for changes in c1!',
+        );
+    });
+
     it ('no-data', async () => {
         let numComponents = 0;
         const world = ecs.buildWorld().withSystem(new Systems.NoDataSystem(dataSet => { numComponents = dataSet.size })).build();
@@ -145,6 +242,98 @@ describe('Run Systems', () => {
     });
 });
 
+describe('States', () => {
+    let ecs: ECS;
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    it('keep running systems below a transparent state', async () => {
+        class PauseState extends State {
+            filterUnderlyingSystem(system: ISystem<TSystemData>): boolean {
+                return system instanceof Systems.NoDataSystem;
+            }
+        }
+
+        let frame = 0;
+        let pauseRuns = 0;
+        let renderRuns = 0;
+        const increment = new Systems.IncrementS1();
+        const render = new Systems.NoDataSystem(() => renderRuns++);
+        const pauseMenu = new Systems.ActionSystem(() => pauseRuns++);
+        const world = ecs.buildWorld()
+            .withSystem(increment)
+            .withSystem(render)
+            .withSystem(pauseMenu)
+            .build();
+        const c1 = world.buildEntity().with(Components.C1).build().getComponent(Components.C1);
+
+        await world.run({
+            initialState: new State(new Set([increment, render])),
+            transitionHandler: async actions => {
+                switch (++frame) {
+                    case 1: await actions.pushState(new PauseState(new Set([pauseMenu]), true)); break;
+                    case 3: await actions.popState(); break;
+                    case 4: actions.stopRun(); break;
+                }
+            }
+        });
+
+        assert.equal(c1?.a, 2, 'Filtered system kept running below the overlay');
+        assert.equal(renderRuns, 4, 'System below the overlay did not keep running');
+        assert.equal(pauseRuns, 2, 'System of the overlay did not run');
+    });
+
+    it('switch, pop to and clear the state stack', async () => {
+        const log: string[] = [];
+        let error: Error | undefined;
+        let frame = 0;
+
+        class LogState extends State {
+            constructor(public name: string) { super() }
+            activate() { log.push(this.name + '.activate') }
+            create() { log.push(this.name + '.create') }
+            deactivate() { log.push(this.name + '.deactivate') }
+        }
+        class A extends LogState {}
+        class B extends LogState {}
+
+        const b = new B('b');
+        const c = new LogState('c');
+        const world = ecs.buildWorld().build();
+
+        await world.run({
+            initialState: new A('a'),
+            transitionHandler: async actions => {
+                switch (++frame) {
+                    case 1: await actions.pushState(b); break;
+                    case 2: await actions.pushState(c); break;
+                    case 3: await actions.popToState(A); break;
+                    case 4: await actions.switchState(new B('b2')); break;
+                    case 5: {
+                        await actions.clearAndPush(c);
+                        await actions.popToState(A).catch(e => error = e);
+                        assert.equal(actions.currentState, c, 'The state stack was changed');
+                        actions.stopRun();
+                    }
+                }
+            }
+        });
+
+        assert.deepEqual(log, [
+            'a.create', 'a.activate',
+            'a.deactivate', 'b.create', 'b.activate',
+            'b.deactivate', 'c.create', 'c.activate',
+            'c.deactivate', 'a.activate',
+            'a.deactivate', 'b2.create', 'b2.activate',
+            'b2.deactivate', 'c.activate',
+            'c.deactivate',
+        ]);
+        assert.equal(error?.message, 'The state A is not on the state stack!');
+    });
+});
+
 describe('Delete Entities', () => {
     let counter = 0;
     let entityCount = -1;
@@ -192,8 +381,681 @@ describe('Delete Entities', () => {
     });
 });
 
+describe('Command Buffer', () => {
+    let ecs: ECS;
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    it('apply structural changes before transition', async () => {
+        let entityCount = -1;
+        const world = ecs.buildWorld().withSystem(new Systems.ActionSystem(actions => {
+            actions.commands.createEntity().addComponent(new Components.C1());
+            actions.commands.removeEntity(toRemove);
+            actions.commands.addComponent(toExtend, new Components.C2());
+        })).build();
+        const toRemove = world.buildEntity().build();
+        const toExtend = world.buildEntity().build();
+
+        await world.run({
+            transitionHandler: async actions => {
+                entityCount = Array.from(actions.getEntities()).length;
+                actions.stopRun();
+            }
+        });
+
+        assert.equal(entityCount, 2, 'Commands were not applied before transition');
+        assert.equal(Array.from(world.getEntities([With(Components.C1)])).length, 1, 'Entity was not created');
+        assert(!Array.from(world.getEntities()).includes(toRemove), 'Entity was not removed');
+        assert(toExtend.hasComponent(Components.C2), 'Component was not added');
+    });
+
+    it('apply in system order', async () => {
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.ActionSystem(actions => { actions.commands.replaceResource(new Number(1)) }))
+            .withSystem(new Systems.ActionSystem2(actions => { actions.commands.replaceResource(new Number(2)) }))
+            .build();
+
+        world.addResource(new Number(0));
+        assert.equal(world.getExecutionPlan().length, 1, 'Systems are not executed in parallel');
+
+        await world.dispatch();
+        assert.equal(world.getResource(Number), 2, 'Commands were not applied in system order');
+    });
+
+    it('apply state transitions after structural changes', async () => {
+        let entityCount = -1;
+        let queued = false;
+        const nextState = new State();
+        nextState.activate = actions => { entityCount = Array.from(actions.getEntities()).length };
+
+        const world = ecs.buildWorld().withSystem(new Systems.ActionSystem(actions => {
+            if (!queued) {
+                queued = true;
+                actions.commands.switchState(nextState);
+                actions.commands.createEntity();
+            }
+        })).build();
+
+        await world.run({
+            transitionHandler: async actions => {
+                assert.equal(actions.currentState, nextState, 'The transition was not applied before the transition handler');
+                actions.stopRun();
+            }
+        });
+
+        assert.equal(entityCount, 1, 'The transition was applied before the structural changes');
+    });
+});
+
+describe('Events', () => {
+    let ecs: ECS;
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    const runFrames = async (world: IWorld, frames: number) => {
+        let frame = 0;
+
+        await world.run({
+            transitionHandler: async actions => {
+                if (++frame >= frames) {
+                    actions.stopRun();
+                }
+            }
+        });
+    };
+
+    it('writers run before readers', async () => {
+        const received: number[][] = [];
+        const reader = new Systems.EventReaderSystem(events => received.push(events.map(event => event.a)));
+        const writer = new Systems.EventWriterSystem();
+        const world = ecs.buildWorld()
+            .withSystem(reader)
+            .withSystem(writer)
+            .build();
+
+        await runFrames(world, 2);
+
+        assert.deepEqual(world.getExecutionPlan(), [[writer], [reader]], 'Reader is not scheduled after writer');
+        assert.deepEqual(received, [[1], [2]], 'Events are not readable in the same iteration');
+    });
+
+    it('read events in the next iteration', async () => {
+        const received: number[][] = [];
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.EventReaderSystem(events => received.push(events.map(event => event.a))))
+            .withSystem(new Systems.EventWriterSystem(), [Systems.EventReaderSystem])
+            .build();
+
+        await runFrames(world, 3);
+
+        assert.deepEqual(received, [[], [1], [2]], 'Events are not readable in the next iteration');
+    });
+});
+
+describe('Update Components', () => {
+    let ecs: ECS;
+    let processed = 0;
+    const op: THandlerFn1 = () => { processed++ };
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    beforeEach(() => {
+        processed = 0;
+    });
+
+    it('add and remove outside of run', async () => {
+        const world = ecs.buildWorld().withSystem(new Systems.S1(op)).build();
+        const entity = world.buildEntity().build();
+
+        await world.dispatch();
+        assert.equal(processed, 0, 'System processed an entity without component');
+
+        entity.addComponent(new Components.C1());
+        await world.dispatch();
+        assert.equal(processed, 1, 'Added component was not picked up');
+
+        entity.removeComponent(entity.getComponent(Components.C1) as Components.C1);
+        await world.dispatch();
+        assert.equal(processed, 1, 'Removed component was still processed');
+    });
+
+    it('optional components', async () => {
+        const optionalComponents: (Components.C2 | undefined)[] = [];
+        const world = ecs.buildWorld().withSystem(new Systems.OptionalC2System(dataSet => {
+            for (const data of dataSet) optionalComponents.push(data.c2);
+        })).build();
+        const entity = world.buildEntity().with(Components.C1).build();
+        const c2 = new Components.C2();
+
+        await world.dispatch();
+        entity.addComponent(c2);
+        await world.dispatch();
+        entity.removeComponent(c2);
+        await world.dispatch();
+
+        assert.deepEqual(optionalComponents, [undefined, c2, undefined], 'Optional component was not provided correctly');
+    });
+
+    it('add during run', async () => {
+        const world = ecs.buildWorld().withSystem(new Systems.S1(op)).build();
+        const entity = world.buildEntity().build();
+        let iteration = 0;
+
+        await world.run({
+            transitionHandler: async actions => {
+                if (++iteration == 1) {
+                    entity.addComponent(new Components.C1());
+                }
+                else {
+                    actions.stopRun();
+                }
+            }
+        });
+
+        assert.equal(processed, 1, 'Component added during the run was not picked up');
+    });
+});
+
+describe('Change Detection', () => {
+    let ecs: ECS;
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    it('Added / Removed', async () => {
+        let added = -1;
+        let removed = -1;
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.AddedC1System(dataSet => { added = dataSet.size }))
+            .withSystem(new Systems.RemovedC1System(dataSet => { removed = dataSet.size }))
+            .build();
+        const entity = world.buildEntity().with(Components.C1).build();
+
+        await world.dispatch();
+        assert.equal(added, 1, 'Added component was not detected');
+        assert.equal(removed, 0, 'Component was detected as removed');
+
+        await world.dispatch();
+        assert.equal(added, 0, 'Component was detected as added twice');
+
+        entity.removeComponent(entity.getComponent(Components.C1) as Components.C1);
+        await world.dispatch();
+        assert.equal(removed, 1, 'Removed component was not detected');
+
+        await world.dispatch();
+        assert.equal(removed, 0, 'Component was detected as removed twice');
+    });
+
+    it('Changed', async () => {
+        let changed = -1;
+        let write = false;
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.S1(data => { if (write) data.c1.a++ }))
+            .withSystem(new Systems.ChangedC1System(dataSet => { changed = dataSet.size }))
+            .build();
+
+        world.buildEntity().with(Components.C1).build();
+        world.buildEntity().with(Components.C1).build();
+
+        await world.dispatch();
+        assert.equal(changed, 2, 'Added components were not detected as changed');
+
+        await world.dispatch();
+        assert.equal(changed, 0, 'Unchanged components were detected as changed');
+
+        write = true;
+        await world.dispatch();
+        assert.equal(changed, 2, 'Write access was not detected as change');
+    });
+});
+
+describe('Prefabs', () => {
+    let ecs: ECS;
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    const withA = <T extends Components.C1 | Components.C2>(component: T, a: number) => {
+        component.a = a;
+        return component;
+    };
+
+    it('build with inheritance and overrides', () => {
+        const world = ecs.buildWorld()
+            .withPrefab('base', { components: [withA(new Components.C1(), 1), withA(new Components.C2(), 1)] })
+            .withPrefab('enemy', { extends: 'base', components: [withA(new Components.C2(), 2)] })
+            .build();
+        const first = world.buildEntity().fromPrefab('enemy').build();
+        const second = world.buildEntity().fromPrefab('enemy', [withA(new Components.C1(), 3)]).build();
+
+        assert.equal(first.getComponent(Components.C1)?.a, 1, 'Component was not inherited');
+        assert.equal(first.getComponent(Components.C2)?.a, 2, 'Inherited component was not overridden');
+        assert.equal(second.getComponent(Components.C1)?.a, 3, 'Override was not applied');
+        assert.notEqual(first.getComponent(Components.C2), second.getComponent(Components.C2), 'Components are shared between entities');
+    });
+
+    it('load definitions from JSON', () => {
+        const world = ecs.buildWorld()
+            .withPrefabsFromJSON('{"bullet":{"components":[["C1",{"a":3}]]},"fastBullet":{"extends":"bullet","components":[]}}')
+            .withComponent(Components.C1, data => withA(new Components.C1(), (data as Components.C1).a))
+            .build();
+        const bullet = world.buildEntity().fromPrefab('fastBullet').build();
+
+        assert.equal(bullet.getComponent(Components.C1)?.a, 3, 'Prefab was not deserialized');
+    });
+
+    it('throw on cyclic inheritance', () => {
+        const world = ecs.buildWorld()
+            .withPrefab('a', { extends: 'b', components: [] })
+            .withPrefab('b', { extends: 'a', components: [] })
+            .build();
+
+        assert.throws(() => world.buildEntity().fromPrefab('a'), 'The prefab "a" inherits from itself!');
+        assert.throws(() => world.buildEntity().fromPrefab('c'), 'Prefab "c" does not exist!');
+    });
+});
+
+describe('Relations', () => {
+    let ecs: ECS;
+    let world: IWorld;
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    beforeEach(() => {
+        world = Object.seal(ecs.buildWorld().build());
+    });
+
+    it('query children', () => {
+        const parent = world.buildEntity().build();
+        const child = world.buildEntity().with(new ChildOf(parent)).build();
+
+        world.buildEntity().with(new ChildOf(child)).build();
+
+        assert.deepEqual(Array.from(world.getEntities([RelatedTo(ChildOf, parent)])), [child], 'Children do not match');
+        assert.equal(child.getComponent(ChildOf)?.parent, parent, 'Parent does not match');
+    });
+
+    it('cascading delete', () => {
+        const parent = world.buildEntity().build();
+        const child = world.buildEntity().with(new ChildOf(parent)).build();
+
+        world.buildEntity().with(new ChildOf(child)).build();
+        world.buildEntity().build();
+        world.removeEntity(parent);
+
+        assert.equal(Array.from(world.getEntities()).length, 1, 'Children were not removed with their parent');
+    });
+
+    it('cascade through relations added later on', () => {
+        const root = world.buildEntity().build();
+        const owner = world.buildEntity().with(new Owns()).build();
+        let child;
+        let parent = root;
+
+        for (let i = 0; i < 100; i++) {
+            child = world.buildEntity().build();
+            child.addComponent(new ChildOf(parent));
+            parent = child;
+        }
+
+        owner.getComponent(Owns)?.targets.add(root);
+        world.removeEntity(root);
+
+        assert.deepEqual(Array.from(world.getEntities()), [owner], 'Hierarchy was not removed');
+        assert.equal(owner.getComponent(Owns)?.targets.size, 0, 'Link, which was changed in place, was not cleaned up');
+    });
+
+    it('cascade through targets added in place', () => {
+        const parent = world.buildEntity().build();
+        const child = world.buildEntity().with(new ChildOf()).build();
+
+        child.getComponent(ChildOf)?.targets.add(parent);
+        world.removeEntity(parent);
+
+        assert.equal(Array.from(world.getEntities()).length, 0, 'Child was not removed with the parent it was linked to in place');
+    });
+
+    it('remove target without cascade', () => {
+        const item = world.buildEntity().build();
+        const owner = world.buildEntity().with(new Owns(item)).build();
+
+        world.removeEntity(item);
+
+        assert.deepEqual(Array.from(world.getEntities()), [owner], 'Owner was removed with the item');
+        assert.equal(owner.getComponent(Owns)?.targets.size, 0, 'Link to removed entity was not cleaned up');
+    });
+
+    it('save and load links', () => {
+        const child = world.buildEntity().build();
+        const parent = world.buildEntity().build();
+
+        child.addComponent(new ChildOf(parent));
+
+        const loaded = ecs.buildWorld().fromJSON(world.toJSON(), defaultDeserializer()).build();
+        const [loadedChild, loadedParent] = Array.from(loaded.getEntities());
+
+        assert.equal(loadedChild.getComponent(ChildOf)?.parent, loadedParent, 'Link was not restored');
+    });
+});
+
+describe('Observers', () => {
+    let ecs: ECS;
+    let log: [string, IEntity, Object?][];
+
+    before(() => {
+        ecs = Object.seal(new ECS());
+    });
+
+    beforeEach(() => {
+        log = [];
+    });
+
+    const buildWorld = () => ecs.buildWorld()
+        .onComponentAdded(Components.C1, (entity, component) => log.push(['added', entity, component]))
+        .onComponentRemoved(Components.C1, (entity, component) => log.push(['removed', entity, component]))
+        .onEntityRemoved(entity => log.push(['entity removed', entity]))
+        .build();
+
+    it('keep the observers of built worlds', () => {
+        const builder = ecs.buildWorld().onComponentAdded(Components.C1, (entity, component) => log.push(['added', entity, component]));
+        const world = builder.build();
+
+        builder.onComponentAdded(Components.C1, entity => log.push(['added later', entity]));
+        world.buildEntity().with(Components.C1).build();
+
+        assert.deepEqual(log.map(entry => entry[0]), ['added'], 'Observers added after build() changed the built world');
+    });
+
+    it('add and remove components', () => {
+        const world = buildWorld();
+        const entity = world.buildEntity().with(Components.C2).build();
+        const c1 = new Components.C1();
+
+        entity.addComponent(c1);
+        entity.removeComponent(c1);
+        entity.addComponent(new Components.C1()).removeComponent(entity.getComponent(Components.C2) as Components.C2);
+
+        assert.deepEqual(log.slice(0, 2), [['added', entity, c1], ['removed', entity, c1]], 'Component changes were not observed');
+        assert.equal(log.length, 3, 'Unobserved component types were reported');
+    });
+
+    it('remove entities', () => {
+        const world = buildWorld();
+        const parent = world.buildEntity().with(Components.C1).build();
+        const child = world.buildEntity().with(new ChildOf(parent)).build();
+        const c1 = parent.getComponent(Components.C1);
+
+        log = [];
+        world.removeEntity(parent);
+
+        assert.deepEqual(log, [
+            ['removed', parent, c1],
+            ['entity removed', parent],
+            ['entity removed', child],
+        ], 'Entity removal was not observed');
+    });
+
+    it('merge, load and change worlds', () => {
+        const world = buildWorld();
+        const other = ecs.buildWorld().build();
+        const entity = other.buildEntity().with(Components.C1).build();
+
+        world.merge(other);
+        assert.deepEqual(log, [['added', entity, entity.getComponent(Components.C1)]], 'Merged entity was not observed');
+
+        entity.changeWorldTo(undefined);
+        assert.deepEqual(log.slice(1), [['removed', entity, entity.getComponent(Components.C1)], ['entity removed', entity]], 'Leaving the world was not observed');
+
+        const parent = world.buildEntity().build();
+        world.buildEntity().with(new ChildOf(parent)).build();
+
+        let loadedRelations = 0;
+        ecs.buildWorld()
+            .onComponentAdded(ChildOf, () => loadedRelations++)
+            .fromJSON(world.toJSON())
+            .build();
+        assert.equal(loadedRelations, 1, 'Loaded component was not observed');
+    });
+});
+
+describe('Snapshots', () => {
+    const ecs = new ECS();
+
+    it('restore entities, components and resources', async () => {
+        let dataSet: Set<Systems.OptionalC2Data> = new Set();
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.OptionalC2System(data => { dataSet = data }))
+            .build();
+        const e1 = world.buildEntity().with(Components.C1).build();
+        const e2 = world.buildEntity().with(Components.C1).with(Components.C2).build();
+        const c1 = e1.getComponent(Components.C1) as Components.C1;
+        const time = world.getResource(Time);
+
+        world.addResource(new Date(0));
+        const snapshot = world.snapshot();
+
+        c1.a = 42;
+        time.tick = 10;
+        e2.removeComponent(e2.getComponent(Components.C2) as Components.C2);
+        world.removeEntity(e2);
+        world.buildEntity().with(Components.C1).build();
+        world.removeResource(Date);
+
+        world.restore(snapshot);
+
+        assert.deepEqual(Array.from(world.getEntities()), [e1, e2], 'Entities were not restored');
+        assert.equal(e1.getComponent(Components.C1), c1, 'Component was not restored in place');
+        assert.equal(c1.a, 0, 'Component data was not restored');
+        assert(e2.hasComponent(Components.C2), 'Removed component was not restored');
+        assert.equal(world.getResource(Time), time, 'Resource was not restored in place');
+        assert.equal(time.tick, 0, 'Resource data was not restored');
+        assert.equal(world.getResource(Date).getTime(), 0, 'Removed resource was not restored');
+        assert.equal(world.getEntityById(e2.id), e2, 'Entity id was not restored');
+
+        await world.dispatch();
+        assert.equal(dataSet.size, 2, 'System data was not rebuilt');
+        assert.equal(Array.from(dataSet).filter(data => data.c2).length, 1, 'System data was not rebuilt');
+    });
+
+    it('detect restored components as changed', async () => {
+        let changed = -1;
+        const world = ecs.buildWorld()
+            .withSystem(new Systems.ChangedC1System(dataSet => { changed = dataSet.size }))
+            .build();
+        const c1 = world.buildEntity().with(Components.C1).build().getComponent(Components.C1) as Components.C1;
+
+        world.buildEntity().with(Components.C1).build();
+        await world.dispatch();
+
+        const snapshot = world.snapshot();
+        c1.a = 42;
+        await world.dispatch();
+        assert.equal(changed, 0, 'Unchanged components were detected as changed');
+
+        world.restore(snapshot);
+        await world.dispatch();
+        assert.equal(changed, 2, 'Restored components were not detected as changed');
+        assert.equal(c1.a, 0, 'Component data was not restored');
+    });
+
+    it('share unchanged copies', async () => {
+        const world = ecs.buildWorld().withSystem(new Systems.S1(data => data.c1.a = 1)).build();
+        const e1 = world.buildEntity().with(Components.C2).build();
+        const e2 = world.buildEntity().with(Components.C1).build();
+
+        const s1 = world.snapshot();
+        await world.dispatch();
+        const s2 = world.snapshot();
+
+        assert.equal(s2.entities.get(e1)![0], s1.entities.get(e1)![0], 'Unchanged component was copied again');
+        assert.notEqual(s2.entities.get(e2)![0], s1.entities.get(e2)![0], 'Changed component was not copied');
+        assert(Object.isFrozen(s1.entities.get(e1)![0]), 'Snapshot copy is not frozen');
+
+        world.restore(s1);
+        world.restore(s2);
+        assert.equal((e2.getComponent(Components.C1) as Components.C1).a, 1, 'Snapshot was changed by restore');
+    });
+
+    it('restore relations', () => {
+        const world = ecs.buildWorld().build();
+        const parent = world.buildEntity().build();
+        const child = world.buildEntity().with(new ChildOf(parent)).build();
+        const snapshot = world.snapshot();
+
+        world.removeEntity(parent);
+        assert.equal(Array.from(world.getEntities()).length, 0, 'Relation did not cascade');
+
+        world.restore(snapshot);
+        assert.equal(child.getComponent(ChildOf)?.parent, parent, 'Relation was not restored');
+        assert.equal(Array.from(world.getEntities([RelatedTo(ChildOf, parent)])).length, 1, 'Relation query does not match');
+    });
+});
+
+describe('Replay', () => {
+    const ecs = new ECS();
+    let offset = 0;
+    const buildWorld = () => ecs.buildWorld()
+        .withSystem(new Systems.S1(data => { data.c1.a += offset }))
+        .withSystem(new Systems.ActionSystem(actions => {
+            if (actions.getResource(Time).tick % 2 == 0) {
+                actions.commands.createEntity().addComponent(new Components.C1());
+            }
+        }))
+        .build();
+    const describeWorld = (world: IWorld) => JSON.stringify(Array.from(world.getEntities())
+        .map(entity => [entity.id, entity.getComponent(Components.C1)?.a, entity.hasComponent(Components.C2)]));
+    const record = async (world: IWorld, recorder: Recorder) => {
+        world.buildEntity().with(Components.C1).build();
+
+        await world.run({
+            recorder,
+            transitionHandler: async actions => {
+                const tick = actions.getResource(Time).tick;
+
+                if (tick == 2) {
+                    actions.createEntity().addComponent(new Components.C2());
+                    actions.addResource(new Date(tick));
+                }
+                else if (tick == 4) {
+                    // remove the entity, which was created by the system in tick 2
+                    const entity = Array.from(actions.getEntities([With(Components.C1)]))[1];
+                    actions.removeEntity(entity);
+                    actions.replaceResource(new Date(tick));
+                }
+                else if (tick == 6) {
+                    actions.stopRun();
+                }
+            },
+        });
+    };
+
+    beforeEach(() => {
+        offset = 1;
+    });
+
+    it('replay a recording', async () => {
+        const world = buildWorld();
+        const recorder = new Recorder();
+
+        await record(world, recorder);
+
+        const recordedState = describeWorld(world);
+        const recording = recorder.recording as TRecording;
+
+        assert.equal(recording.frames.length, 6, 'Not all frames were recorded');
+        assert.equal(recording.frames[1].actions.length, 2, 'Actions were not recorded');
+
+        await world.replay(recording, { verify: true });
+
+        assert.equal(describeWorld(world), recordedState, 'Replay does not result in the same world');
+        assert.equal(world.getResource(Date).getTime(), 4, 'Resource changes were not replayed');
+    });
+
+    it('replay in another world', async () => {
+        const world = buildWorld();
+        const recorder = new Recorder();
+
+        await record(world, recorder);
+
+        const recordedEntities = Array.from(world.getEntities());
+        const recordedState = describeWorld(world);
+        const otherWorld = buildWorld();
+
+        await otherWorld.replay(recorder.recording as TRecording, { verify: true });
+
+        assert.equal(describeWorld(otherWorld), recordedState, 'Replay does not result in the same world');
+        assert.equal(describeWorld(world), recordedState, 'Recorded world was changed by the replay');
+        assert.deepEqual(Array.from(world.getEntities()), recordedEntities, 'Recorded entities were moved');
+        assert(Array.from(otherWorld.getEntities()).every(entity => !recordedEntities.includes(entity)), 'Entities are shared between the worlds');
+    });
+
+    it('keep entity ids unique', async () => {
+        const world = buildWorld();
+        const recorder = new Recorder();
+
+        await record(world, recorder);
+
+        const otherEntity = new ECS().buildWorld().build().createEntity();
+        await world.replay(recorder.recording as TRecording, { verify: true });
+
+        assert.isAbove(world.createEntity().id, otherEntity.id, 'Entity id was re-used after replay');
+    });
+
+    it('detect non-determinism', async () => {
+        const world = buildWorld();
+        const recorder = new Recorder();
+
+        await record(world, recorder);
+
+        offset = 2;
+        let error: Error | undefined;
+
+        try {
+            await world.replay(recorder.recording as TRecording, { verify: true });
+        }
+        catch (e) {
+            error = e;
+        }
+
+        assert.equal(error?.message, 'The replay diverged from the recording in frame 0!', 'Non-determinism was not detected');
+    });
+});
+
 describe('Save / Load', () => {
-    const serializedWorld = '[[],[["Date","1970-01-01T00:00:00.000Z"]],[["Date","1970-01-01T00:00:01.337Z"],["C1",{"a":0}]]]';
+    const c1Serializer = defaultSerializer(component => {
+        if (component instanceof Components.C1) {
+            return { a: component.a };
+        }
+
+        throw new Error('Unknown component: ' + (component as Object).constructor.name);
+    });
+    const c1Deserializer = (cn: string, data: unknown) => {
+        switch (cn) {
+            case Components.C1.name: {
+                if (typeof data != 'object') {
+                    throw new Error(`data is not of type object, but instead ${typeof data}!`);
+                }
+
+                const c = new Components.C1();
+                c.a = (data as Components.C1).a;
+                return c;
+            }
+            default: {
+                throw new Error('Unknown constructor name: ' + cn);
+            }
+        }
+    };
+    const serializedWorld = '{"version":{"format":1,"schema":0},"entities":[{"id":9001,"components":[]},{"id":9002,"components":[["Date","1970-01-01T00:00:00.000Z"]]},{"id":9003,"components":[["Date","1970-01-01T00:00:01.337Z"],["C1",{"a":0}]]}]}';
     let ecs: ECS;
 
     before(() => {
@@ -222,31 +1084,159 @@ describe('Save / Load', () => {
     it('save world to json', () => {
         const w1 = ecs.buildWorld().build();
 
-        w1.buildEntity().build();
-        w1.buildEntity().with(new Date(0)).build();
-        w1.buildEntity().with(new Date(1337)).with(new Components.C1()).build();
+        const e1 = w1.buildEntity().build();
+        const e2 = w1.buildEntity().with(new Date(0)).build();
+        const e3 = w1.buildEntity().with(new Date(1337)).with(new Components.C1()).build();
 
-        assert.equal(w1.toJSON(), serializedWorld, 'Unable to serialize world');
+        assert.equal(
+            w1.toJSON(c1Serializer),
+            serializedWorld.replace('9001', e1.id.toString()).replace('9002', e2.id.toString()).replace('9003', e3.id.toString()),
+            'Unable to serialize world'
+        );
     });
 
     it('load world from json', () => {
-        const w1 = ecs.buildWorld().fromJSON(serializedWorld, defaultDeserializer((cn, data) => {
-            switch (cn) {
-                case Components.C1.name: {
-                    if (typeof data != 'object') {
-                        throw new Error(`data is not of type object, but instead ${typeof data}!`);
-                    }
+        const w1 = ecs.buildWorld().fromJSON(serializedWorld, defaultDeserializer(c1Deserializer)).build();
+
+        assert.equal(w1.toJSON(c1Serializer), serializedWorld, 'deserialization is lossy');
+        assert.equal(w1.getEntityById(9002)?.getComponent(Date)?.getTime(), 0, 'Entity id was not restored');
+    });
+
+    it('binary round-trip', () => {
+        const w1 = ecs.buildWorld().fromJSON(serializedWorld, defaultDeserializer(c1Deserializer)).build();
+        const w2 = ecs.buildWorld().fromBinary(w1.toBinary(c1Serializer), defaultDeserializer(c1Deserializer)).build();
+
+        assert.equal(w2.toJSON(c1Serializer), serializedWorld, 'binary save is lossy');
+    });
+
+    it('stream round-trip', async () => {
+        const w1 = ecs.buildWorld().fromJSON(serializedWorld, defaultDeserializer(c1Deserializer)).build();
+        const w2 = ecs.buildWorld().build();
+        const stream = new PassThrough();
+
+        await w1.saveToStream(stream, c1Serializer);
+        stream.end();
+        await w2.loadFromStream(stream, defaultDeserializer(c1Deserializer));
+
+        assert.equal(w2.toJSON(c1Serializer), serializedWorld, 'stream save is lossy');
+    });
+
+    it('save with registered serializer', () => {
+        const w1 = ecs.buildWorld()
+            .withComponent(Components.C1, data => Object.assign(new Components.C1(), data), component => ({ a: (component as Components.C1).a + 1 }))
+            .build();
+
+        const entity = w1.buildEntity().with(new Components.C1()).build();
+
+        assert.equal(w1.toJSON(), `{"version":{"format":1,"schema":0},"entities":[{"id":${entity.id},"components":[["C1",{"a":1}]]}]}`, 'Registered serializer was not used');
+    });
+
+    it('throw on missing serializer', () => {
+        const w1 = ecs.buildWorld().build();
+        w1.buildEntity().with(new Components.C1()).build();
+
+        assert.throws(() => w1.toJSON(), 'Missing serializer for "C1"!');
+    });
+
+    it('migrate save on load', () => {
+        const w1 = ecs.buildWorld()
+            .fromJSON('[[["Date","1970-01-01T00:00:00.000Z"]]]', defaultDeserializer())
+            .withMigration(0, 1, entities => entities.map(entity => ({
+                id: entity.id,
+                components: entity.components.map(component => component[0] == 'Date' ? ['Date', '1970-01-01T00:00:01.337Z'] : component),
+            })))
+            .build();
+
+        const entity = Array.from(w1.getEntities())[0];
 
-                    const c = new Components.C1();
-                    c.a = (data as Components.C1).a;
-                    return c;
+        assert.equal(entity.getComponent(Date)?.getTime(), 1337, 'Migration was not applied');
+        assert.equal(JSON.parse(w1.toJSON()).version.schema, 1, 'Save does not use the latest schema version');
+    });
+
+    it('save and load resources and states', async () => {
+        class Menu extends State {}
+        class Level extends State {}
+        const menu = new Menu();
+        const level = new Level();
+        const w1 = ecs.buildWorld()
+            .withResource(Components.C1, data => Object.assign(new Components.C1(), data), score => ({ a: (score as Components.C1).a }))
+            .withState(menu, 'menu')
+            .withState(level, 'level-1')
+            .build();
+
+        const score = new Components.C1();
+        score.a = 42;
+        w1.addResource(score);
+        w1.addResource(new Components.C2());
+
+        let json = '';
+        await w1.run({
+            initialState: menu,
+            transitionHandler: async actions => {
+                if (actions.currentState == menu) {
+                    await actions.pushState(level);
+                    return;
                 }
-                default: {
-                    throw new Error('Unknown constructor name: ' + cn);
+
+                json = actions.toJSON(undefined, { resources: true, states: true });
+                actions.stopRun();
+            },
+        });
+
+        assert.deepEqual(JSON.parse(json).resources, [['C1', {a: 42}]], 'Only registered resources must be saved');
+        assert.deepEqual(JSON.parse(json).states, ['menu', 'level-1'], 'State stack was not saved');
+
+        const w2 = ecs.buildWorld()
+            .fromJSON(json)
+            .withResource(Components.C1, data => Object.assign(new Components.C1(), data))
+            .withState(menu, 'menu')
+            .withState(level, 'level-1')
+            .build();
+
+        assert.equal(w2.getResource(Components.C1).a, 42, 'Resource was not restored');
+
+        const states: (IState | undefined)[] = [];
+        await w2.run({
+            transitionHandler: async actions => {
+                states.push(actions.currentState);
+                await actions.popState();
+
+                if (!actions.currentState) {
+                    actions.stopRun();
                 }
-            }
-        })).build();
+            },
+        });
+
+        assert.deepEqual(states, [level, menu], 'State stack was not restored');
+    });
+
+    it('save with type ids', () => {
+        const world = ecs.buildWorld()
+            .withComponent(Components.C1, data => Object.assign(new Components.C1(), data), undefined, 'c1')
+            .build();
+        world.buildEntity().with(Components.C1).build();
+
+        const json = world.toJSON();
+        assert.include(json, '["c1",{"a":0}]', 'Component was not saved with its id');
+
+        const loaded = ecs.buildWorld()
+            .withComponent(Components.C1, data => Object.assign(new Components.C1(), data), undefined, 'c1')
+            .fromJSON(json)
+            .build();
+        assert.equal(Array.from(loaded.getEntities([With(Components.C1)])).length, 1, 'Component was not loaded by its id');
+
+        assert.throws(() => ecs.buildWorld()
+            .withComponent(Components.C1, data => data as Object, undefined, 'c')
+            .withComponent(Components.C2, data => data as Object, undefined, 'c'),
+            'The id "c" of the type C2 is already used by the type C1!');
+    });
+
+    it('load legacy save without ids', () => {
+        const w1 = ecs.buildWorld().fromJSON('[[],[["Date","1970-01-01T00:00:00.000Z"]]]', defaultDeserializer()).build();
+        const entities = Array.from(w1.getEntities());
 
-        assert.equal(w1.toJSON(), serializedWorld, 'deserialization is lossy')
+        assert.equal(entities.length, 2, 'Entities were not loaded');
+        assert.notEqual(entities[0].id, entities[1].id, 'Loaded entities do not have unique ids');
+        assert.equal(w1.getEntityById(entities[1].id), entities[1], 'Entity cannot be found by its id');
     });
 });
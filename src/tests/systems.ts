@@ -1,7 +1,8 @@
-import {System} from "../..";
+import {ISystemActions, System} from "../..";
 import {NoData, SystemData} from "../system";
-import {C1} from "./components";
-import {Write} from "../queue.spec";
+import {C1, C2, E1} from "./components";
+import {IEventReader, IEventWriter} from "../events.spec";
+import {Added, Changed, Read, ReadOptional, Removed, Write} from "../queue.spec";
 
 export class S1Data extends SystemData{ c1 = Write(C1) }
 export type THandlerFn1 = (data: S1Data) => void
@@ -19,6 +20,14 @@ export class S1 extends System<S1Data> {
     }
 }
 
+export class IncrementS1 extends System<S1Data> {
+    readonly SystemDataType = S1Data;
+
+    async run(dataSet: Set<S1Data>): Promise<void> {
+        for (const {c1} of dataSet) c1.a++;
+    }
+}
+
 export class S2Data extends SystemData{}
 export type THandlerFn2 = (data: Set<S2Data>) => void
 export class S2 extends System<S2Data> {
@@ -50,3 +59,88 @@ export class NoDataSystem extends System<NoData> {
     }
 
 }
+
+export type THandlerFn4 = (actions: ISystemActions) => void
+export class ActionSystem extends System<NoData> {
+    readonly SystemDataType = NoData;
+    actions!: ISystemActions;
+    handler: THandlerFn4;
+
+    constructor(handler: THandlerFn4) {
+        super();
+        this.handler = handler;
+    }
+
+    setup(actions: ISystemActions): void {
+        this.actions = actions;
+    }
+
+    async run(dataSet: Set<NoData>): Promise<void> {
+        this.handler(this.actions);
+    }
+}
+
+export class ActionSystem2 extends ActionSystem {}
+
+export type THandlerFn5<D extends SystemData> = (data: Set<D>) => void
+abstract class DataSetSystem<D extends SystemData> extends System<D> {
+    handler: THandlerFn5<D>;
+
+    constructor(handler: THandlerFn5<D>) {
+        super();
+        this.handler = handler;
+    }
+
+    async run(dataSet: Set<D>): Promise<void> {
+        this.handler(dataSet);
+    }
+}
+
+export class AddedC1Data extends SystemData { c1 = Added(C1) }
+export class AddedC1System extends DataSetSystem<AddedC1Data> { readonly SystemDataType = AddedC1Data }
+
+export class ChangedC1Data extends SystemData { c1 = Changed(C1) }
+export class ChangedC1System extends DataSetSystem<ChangedC1Data> { readonly SystemDataType = ChangedC1Data }
+
+export class RemovedC1Data extends SystemData { c1 = Removed(C1) }
+export class RemovedC1System extends DataSetSystem<RemovedC1Data> { readonly SystemDataType = RemovedC1Data }
+
+export class OptionalC2Data extends SystemData { c1 = Read(C1); c2 = ReadOptional(C2) }
+export class OptionalC2System extends DataSetSystem<OptionalC2Data> { readonly SystemDataType = OptionalC2Data }
+
+export type THandlerFn6 = (events: E1[]) => void
+export class EventReaderSystem extends System<NoData> {
+    readonly SystemDataType = NoData;
+    handler: THandlerFn6;
+    reader!: IEventReader<E1>;
+
+    constructor(handler: THandlerFn6 = () => {}) {
+        super();
+        this.handler = handler;
+    }
+
+    setup(actions: ISystemActions): void {
+        this.reader = actions.getEventReader(E1);
+    }
+
+    async run(dataSet: Set<NoData>): Promise<void> {
+        this.handler(Array.from(this.reader.read()));
+    }
+}
+
+export class EventWriterSystem extends System<NoData> {
+    readonly SystemDataType = NoData;
+    count = 0;
+    writer!: IEventWriter<E1>;
+
+    setup(actions: ISystemActions): void {
+        this.writer = actions.getEventWriter(E1);
+    }
+
+    async run(dataSet: Set<NoData>): Promise<void> {
+        const event = new E1();
+
+        event.a = ++this.count;
+        this.writer.write(event);
+    }
+}
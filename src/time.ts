@@ -0,0 +1,34 @@
+/**
+ * Built-in resource, which holds the timing information of the current world run.
+ * All values are in seconds.
+ */
+export class Time {
+    /**
+     * Progress between the last and the next fixed step, in the range [0, 1).
+     * Can be used to interpolate rendering between two fixed steps.
+     * Always 0 in variable-step mode.
+     */
+    alpha = 0;
+
+    /**
+     * Time which passed since the last iteration
+     */
+    delta = 0;
+
+    /**
+     * Time which passed since the start of the run, summed up from all deltas
+     */
+    elapsed = 0;
+
+    /**
+     * Number of iterations since the start of the run
+     */
+    tick = 0;
+
+    reset(): void {
+        this.alpha = 0;
+        this.delta = 0;
+        this.elapsed = 0;
+        this.tick = 0;
+    }
+}
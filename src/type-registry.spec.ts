@@ -0,0 +1,24 @@
+import {TObjectProto} from "./_.spec";
+
+export interface ITypeRegistry {
+    /**
+     * Get the id of a type, which is either its registered id, the id of its TypeId() decorator or its name
+     * @param type
+     */
+    getId(type: TObjectProto): string
+
+    /**
+     * Get the type, which was registered with an id
+     * @param id
+     */
+    getType(id: string): TObjectProto | undefined
+
+    /**
+     * Assign a stable id to a type. Each id can only be used by one type
+     * @param type
+     * @param id defaults to the id of the TypeId() decorator or the name of the type
+     */
+    register(type: TObjectProto, id?: string): string
+}
+
+export default ITypeRegistry;
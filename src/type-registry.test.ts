@@ -0,0 +1,36 @@
+import {expect} from 'chai';
+import {TypeId, TypeRegistry} from "./type-registry";
+
+@TypeId('game.Position')
+class Position {}
+class Position3D extends Position {}
+
+describe('Test TypeRegistry', () => {
+    it('register with ids', () => {
+        const registry = new TypeRegistry();
+
+        expect(registry.register(Position3D, 'p3')).to.equal('p3');
+        expect(registry.getId(Position3D)).to.equal('p3');
+        expect(registry.getType('p3')).to.equal(Position3D);
+    });
+
+    it('default ids', () => {
+        const registry = new TypeRegistry();
+
+        expect(registry.getId(Position)).to.equal('game.Position');
+        expect(registry.getId(Position3D)).to.equal('Position3D');
+        expect(registry.register(Position)).to.equal('game.Position');
+    });
+
+    it('detect collisions', () => {
+        const registry = new TypeRegistry();
+        const Other = class Position3D {};
+
+        registry.register(Position3D);
+        registry.register(Position3D);
+
+        expect(() => registry.register(Other)).to.throw('The id "Position3D" of the type Position3D is already used by the type Position3D!');
+        expect(() => registry.getId(Other)).to.throw('The type Position3D is not registered, and its id "Position3D" is already used by another type!');
+        expect(() => registry.register(Position3D, 'p3')).to.throw('The type Position3D is already registered with the id "Position3D"!');
+    });
+});
@@ -0,0 +1,64 @@
+import {ITypeRegistry} from "./type-registry.spec";
+import {TObjectProto} from "./_.spec";
+
+export * from './type-registry.spec';
+
+const typeIdKey = Symbol();
+
+/**
+ * Assign a stable id to a class, which is used instead of its name, for example when saving.
+ * The id is not inherited by sub-classes
+ * @param id
+ */
+export function TypeId(id: string): ClassDecorator {
+    return target => {
+        Object.defineProperty(target, typeIdKey, { value: id });
+    };
+}
+
+const getDefaultId = function (type: TObjectProto): string {
+    return Object.prototype.hasOwnProperty.call(type, typeIdKey)
+        ? (type as unknown as { [typeIdKey]: string })[typeIdKey]
+        : type.name;
+};
+
+export class TypeRegistry implements ITypeRegistry {
+    protected ids: Map<TObjectProto, string> = new Map();
+    protected types: Map<string, TObjectProto> = new Map();
+
+    getId(type: TObjectProto): string {
+        let id = this.ids.get(type);
+
+        if (id === undefined) {
+            id = getDefaultId(type);
+
+            // an unregistered type must not be mistaken for the registered one
+            if (this.types.has(id)) {
+                throw new Error(`The type ${type.name} is not registered, and its id "${id}" is already used by another type!`);
+            }
+        }
+
+        return id;
+    }
+
+    getType(id: string): TObjectProto | undefined {
+        return this.types.get(id);
+    }
+
+    register(type: TObjectProto, id: string = getDefaultId(type)): string {
+        const registeredId = this.ids.get(type);
+        const registeredType = this.types.get(id);
+
+        if (registeredId !== undefined && registeredId != id) {
+            throw new Error(`The type ${type.name} is already registered with the id "${registeredId}"!`);
+        }
+
+        if (registeredType && registeredType != type) {
+            throw new Error(`The id "${id}" of the type ${type.name} is already used by the type ${registeredType.name}!`);
+        }
+
+        this.ids.set(type, id);
+        this.types.set(id, type);
+        return id;
+    }
+}
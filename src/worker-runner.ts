@@ -0,0 +1,87 @@
+import {parentPort, workerData} from "worker_threads";
+import ISystem, {NoData, TSystemData, TSystemProto} from "./system.spec";
+import {ISystemActions} from "./world.spec";
+import {TWorkerData, TWorkerRequest, TWorkerResponse} from "./worker.spec";
+import {access, EAccess, TComponentAccess} from "./queue.spec";
+
+const data = workerData as TWorkerData;
+const SystemProto: TSystemProto<TSystemData> | undefined = require(data.module)[data.exportName];
+
+if (!SystemProto) {
+    throw new Error(`Module "${data.module}" does not export a system named ${data.exportName}!`);
+}
+
+const system: ISystem<TSystemData> = new SystemProto();
+const components = new Map<string, Object>();
+const writeFields: string[] = [];
+
+if (system.SystemDataType.prototype != NoData.prototype) {
+    let componentAccess;
+    for (const [fieldName, fieldAccess] of Object.entries(new system.SystemDataType())) {
+        componentAccess = (fieldAccess as TComponentAccess<Object>)[access];
+
+        switch (componentAccess.type) {
+            case EAccess.WRITE:
+            case EAccess.WRITE_OPTIONAL: {
+                writeFields.push(fieldName);
+                components.set(fieldName, componentAccess.component.prototype);
+                break;
+            }
+            case EAccess.READ:
+            case EAccess.READ_OPTIONAL: {
+                components.set(fieldName, componentAccess.component.prototype);
+                break;
+            }
+        }
+    }
+}
+
+const unavailable = (name: string) => (): never => {
+    throw new Error(`${name} is not available to systems running in a worker!`);
+};
+
+system.setup(Object.freeze({
+    get commands(): never { return unavailable('commands')(); },
+    currentState: undefined,
+    getEntities: unavailable('getEntities'),
+    getEventReader: unavailable('getEventReader'),
+    getEventWriter: unavailable('getEventWriter'),
+    getEntityById: unavailable('getEntityById'),
+    getResource: unavailable('getResource'),
+}) as ISystemActions);
+
+parentPort?.on('message', async (request: TWorkerRequest) => {
+    let response: TWorkerResponse;
+
+    try {
+        // structured cloning drops the prototypes, so they have to be restored before the system can use the data
+        for (const record of request.records) {
+            for (const [field, prototype] of components) {
+                if (typeof record[field] == 'object' && record[field] !== null) {
+                    Object.setPrototypeOf(record[field], prototype);
+                }
+            }
+        }
+
+        await system.run(new Set(request.records));
+
+        response = {
+            type: 'done',
+            records: request.records.map(record => {
+                const writeRecord: TSystemData = {};
+                for (const field of writeFields) {
+                    writeRecord[field] = record[field];
+                }
+                return writeRecord;
+            }),
+        };
+    }
+    catch (error) {
+        response = {
+            type: 'error',
+            message: error instanceof Error ? error.message : String(error),
+        };
+    }
+
+    parentPort?.postMessage(response);
+});
@@ -0,0 +1,49 @@
+import {TSystemData} from "./system.spec";
+
+export type TWorkerOptions = {
+    /**
+     * Absolute path of the module, which exports the system prototype
+     */
+    module: string
+    /**
+     * Name of the export, defaults to the constructor name of the system
+     */
+    exportName?: string
+};
+
+export type TWorkerData = {
+    exportName: string
+    module: string
+};
+
+export type TWorkerRequest = {
+    type: 'run'
+    records: TSystemData[]
+};
+
+export type TWorkerResponse = {
+    type: 'done'
+    records: TSystemData[]
+} | {
+    type: 'error'
+    message: string
+};
+
+export interface ISystemWorker<D extends TSystemData> {
+    /**
+     * Run the system in the worker thread and write back all changes to WRITE-accessed components.
+     * Rejects, if the worker failed or exited, also in between runs
+     * @param dataSet
+     */
+    run(dataSet: Set<D>): Promise<void>
+
+    /**
+     * Spawn the worker thread and set up the system inside of it
+     */
+    start(): void
+
+    /**
+     * Stop the worker thread
+     */
+    terminate(): Promise<void>
+}
@@ -0,0 +1,152 @@
+import {Worker} from "worker_threads";
+import * as path from "path";
+import ISystem, {NoData, TSystemData} from "./system.spec";
+import {ISystemWorker, TWorkerData, TWorkerOptions, TWorkerRequest, TWorkerResponse} from "./worker.spec";
+import {access, EAccess, TComponentAccess} from "./queue.spec";
+
+export * from './worker.spec';
+
+export class SystemWorker<D extends TSystemData> implements ISystemWorker<D> {
+    protected failure?: Error;
+    protected pending?: (error: Error) => void;
+    protected readFields: string[] = [];
+    protected worker?: Worker;
+    protected workerData: TWorkerData;
+    protected writeFields: string[] = [];
+
+    constructor(system: ISystem<D>, options: TWorkerOptions) {
+        this.workerData = {
+            exportName: options.exportName ?? system.constructor.name,
+            module: options.module,
+        };
+
+        if (system.SystemDataType.prototype != NoData.prototype) {
+            for (const [fieldName, fieldAccess] of Object.entries(new system.SystemDataType())) {
+                switch ((fieldAccess as TComponentAccess<Object>)[access].type) {
+                    case EAccess.READ:
+                    case EAccess.READ_OPTIONAL: this.readFields.push(fieldName); break;
+                    case EAccess.WRITE:
+                    case EAccess.WRITE_OPTIONAL: this.writeFields.push(fieldName); break;
+                    // the change ticks are only known to the world, so the filters cannot be applied in the worker
+                    case EAccess.ADDED:
+                    case EAccess.CHANGED:
+                    case EAccess.REMOVED: {
+                        throw new Error(`System ${this.workerData.exportName} cannot run in a worker, because it filters for changes in ${fieldName}!`);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Remember why the worker stopped working and reject the pending run
+     * @param worker
+     * @param error
+     */
+    protected fail(worker: Worker, error: Error): void {
+        // errors of a terminated worker do not matter anymore
+        if (worker != this.worker) return;
+
+        this.failure = this.failure ?? error;
+        this.pending?.(this.failure);
+        this.pending = undefined;
+    }
+
+    run(dataSet: Set<D>): Promise<void> {
+        const worker = this.worker;
+        if (!worker) {
+            return Promise.reject(new Error(`The worker for system ${this.workerData.exportName} was not started!`));
+        }
+
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+
+        const dataArray = Array.from(dataSet);
+        const fields = this.readFields.concat(this.writeFields);
+        const request: TWorkerRequest = {
+            type: 'run',
+            records: dataArray.map(data => {
+                const record: TSystemData = {};
+                for (const field of fields) {
+                    record[field] = data[field];
+                }
+                return record;
+            }),
+        };
+
+        return new Promise((resolve, reject) => {
+            const onMessage = (response: TWorkerResponse) => {
+                this.pending = undefined;
+                worker.unref();
+
+                if (response.type == 'error') {
+                    reject(new Error(`System ${this.workerData.exportName} failed in worker: ${response.message}`));
+                    return;
+                }
+
+                let component;
+                for (let i = 0; i < dataArray.length; i++) {
+                    for (const field of this.writeFields) {
+                        component = dataArray[i][field];
+
+                        if (component !== undefined) {
+                            Object.assign(component, response.records[i][field]);
+                        }
+                    }
+                }
+
+                resolve();
+            };
+
+            this.pending = error => {
+                worker.off('message', onMessage);
+                worker.unref();
+                reject(error);
+            };
+
+            // keep the process alive until the worker answered
+            worker.ref();
+            worker.once('message', onMessage);
+            worker.postMessage(request);
+        });
+    }
+
+    start(): void {
+        if (this.worker) return;
+
+        const extension = path.extname(__filename);
+        const runnerPath = path.join(__dirname, 'worker-runner' + extension);
+
+        // when running from source, the worker has to be able to compile TypeScript on its own
+        if (extension == '.ts') {
+            try {
+                require.resolve('ts-node');
+            }
+            catch {
+                throw new Error(`System ${this.workerData.exportName} cannot run in a worker, because ts-node is required to load the TypeScript sources of sim-ecs!`);
+            }
+        }
+
+        const worker = extension == '.ts'
+            ? new Worker(
+                `require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(runnerPath)});`,
+                { eval: true, workerData: this.workerData }
+            )
+            : new Worker(runnerPath, { workerData: this.workerData });
+
+        this.failure = undefined;
+        this.worker = worker;
+        worker.on('error', error => this.fail(worker, error));
+        worker.on('exit', code => this.fail(worker, new Error(`The worker for system ${this.workerData.exportName} exited with code ${code}!`)));
+        worker.unref();
+    }
+
+    async terminate(): Promise<void> {
+        const worker = this.worker;
+        this.worker = undefined;
+        this.pending?.(new Error(`The worker for system ${this.workerData.exportName} was terminated!`));
+        this.pending = undefined;
+        await worker?.terminate();
+    }
+}
@@ -1,7 +1,42 @@
 import ISystem, {TSystemData, TSystemProto} from "./system.spec";
-import IWorld from "./world.spec";
-import {TCustomDeserializer, TDeserializer, TSerializer} from "./save-format.spec";
-import {TObjectProto} from "./_.spec";
+import IWorld, {TComponentObserver, TEntityObserver, TRunCriteria, TSystemRef} from "./world.spec";
+import {TCustomDeserializer, TDeserializer, TMigration, TSerializer} from "./save-format.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
+import {TWorkerOptions} from "./worker.spec";
+import {TRelationProto} from "./relation.spec";
+import IState from "./state.spec";
+import {TPrefab} from "./prefab.spec";
+
+export type TSystemOptions = {
+    /**
+     * Systems or labels, which have to run before this system
+     */
+    after?: TSystemRef[]
+    /**
+     * Systems or labels, which have to run after this system
+     */
+    before?: TSystemRef[]
+    /**
+     * Stable id of the system, which is checked for collisions with other registered types
+     */
+    id?: string
+    /**
+     * Names of groups, which other systems can refer to in their ordering constraints
+     */
+    labels?: string[]
+    /**
+     * Conditions, which are checked each iteration, in order to decide if the system runs
+     */
+    runCriteria?: TRunCriteria
+    /**
+     * Stage of the system, which runs after all systems of previous stages. Defaults to "Update"
+     */
+    stage?: string
+    /**
+     * Run the system in a worker thread instead of the main thread
+     */
+    worker?: TWorkerOptions
+};
 
 export interface IWorldBuilder {
     /**
@@ -9,25 +44,110 @@ export interface IWorldBuilder {
      */
     build(): IWorld
 
+    /**
+     * Load a world from a binary save
+     * @param data
+     * @param deserializer
+     */
+    fromBinary(data: Uint8Array, deserializer?: TDeserializer): IWorldBuilder
+
     /**
      * Load a world from a JSON string
      * @param json
      * @param deserializer
      */
-    fromJSON(json: string, deserializer: TDeserializer): IWorldBuilder
+    fromJSON(json: string, deserializer?: TDeserializer): IWorldBuilder
+
+    /**
+     * Observe whenever a component of a type becomes part of the world,
+     * either by being added to an entity of the world, or together with its entity
+     * @param Component
+     * @param observer
+     */
+    onComponentAdded<C extends Object>(Component: TTypeProto<C>, observer: TComponentObserver<C>): IWorldBuilder
+
+    /**
+     * Observe whenever a component of a type leaves the world,
+     * either by being removed from an entity of the world, or together with its entity
+     * @param Component
+     * @param observer
+     */
+    onComponentRemoved<C extends Object>(Component: TTypeProto<C>, observer: TComponentObserver<C>): IWorldBuilder
+
+    /**
+     * Observe whenever an entity leaves the world
+     * @param observer
+     */
+    onEntityRemoved(observer: TEntityObserver): IWorldBuilder
+
+    /**
+     * Add a named template of components, from which entities can be built
+     * @param name
+     * @param prefab
+     */
+    withPrefab(name: string, prefab: TPrefab): IWorldBuilder
+
+    /**
+     * Add prefabs from a JSON object of prefab definitions by name.
+     * The components are deserialized on build, using the registered deserializers
+     * @param json
+     * @param deserializer
+     */
+    withPrefabsFromJSON(json: string, deserializer?: TDeserializer): IWorldBuilder
+
+    /**
+     * Add resource type to the world (used for loading and saving)
+     * @param Resource
+     * @param deserializer
+     * @param serializer
+     * @param id stable id in saves, defaults to the id of the TypeId() decorator or the name of the type
+     */
+    withResource(Resource: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string): IWorldBuilder
+
+    /**
+     * Set the names of the stages in the order they run in.
+     * Defaults to PreUpdate, Update, PostUpdate and Render
+     * @param stages
+     */
+    withStages(stages: string[]): IWorldBuilder
+
+    /**
+     * Add a state, which can be saved as part of the state stack and restored on load
+     * @param state
+     * @param id unique identifier in the save. States are instances, so the id cannot be derived from their type
+     */
+    withState(state: IState, id: string): IWorldBuilder
 
     /**
      * Add system to the world
      * @param system
      * @param dependencies
+     * @param options
      */
-    withSystem(system: ISystem<TSystemData>, dependencies?: TSystemProto<TSystemData>[]): IWorldBuilder
+    withSystem(system: ISystem<TSystemData>, dependencies?: TSystemProto<TSystemData>[], options?: TSystemOptions): IWorldBuilder
 
     /**
      * Add component to the world (used for loading and saving)
      * @param Component
      * @param deserializer
      * @param serializer
+     * @param id stable id in saves, defaults to the id of the TypeId() decorator or the name of the type
+     */
+    withComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string): IWorldBuilder
+
+    /**
+     * Add a migration, which transforms the entities of older saves from one schema version to a newer one.
+     * The highest target version is the schema version of new saves.
+     * @param fromVersion
+     * @param toVersion
+     * @param migration
+     */
+    withMigration(fromVersion: number, toVersion: number, migration: TMigration): IWorldBuilder
+
+    /**
+     * Add relation to the world (used for loading and saving)
+     * @param Relation
+     * @param id stable id in saves, defaults to the id of the TypeId() decorator or the name of the type
      */
-    withComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer): IWorldBuilder
+    withRelation(Relation: TRelationProto, id?: string): IWorldBuilder
 }
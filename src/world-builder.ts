@@ -1,16 +1,34 @@
-import {IWorldBuilder} from "./world-builder.spec";
+import {IWorldBuilder, TSystemOptions} from "./world-builder.spec";
 import ISystem, {TSystemData, TSystemProto} from "./system.spec";
-import IWorld, {TSystemInfo} from "./world.spec";
+import IWorld, {defaultStage, defaultStages, TComponentObserver, TEntityObserver, TObservers, TSystemInfo} from "./world.spec";
 import {World} from "./world";
-import {TCustomDeserializer, TDeserializer, TSerializer} from "./save-format.spec";
-import {TObjectProto} from "./_.spec";
-import {SaveFormat} from "./save-format";
+import {TCustomDeserializer, TDeserializer, TMigration, TSerializer} from "./save-format.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
+import {BinarySaveFormat} from "./binary-save-format";
+import {SystemWorker} from "./worker";
+import {TRelationProto} from "./relation.spec";
+import IState from "./state.spec";
+import {TPrefab, TPrefabDefinitions} from "./prefab.spec";
+import {TypeRegistry} from "./type-registry";
+
+export * from './world-builder.spec';
 
 export class WorldBuilder implements IWorldBuilder {
     protected systemInfos: Map<ISystem<TSystemData>, TSystemInfo<TSystemData>> = new Map();
     protected callbacks: Set<(world: IWorld)=>void> = new Set();
-    protected fromWorld?: World;
-    protected save = new SaveFormat();
+    // entities of a loaded save are only deserialized on build, so that all migrations are known
+    protected fromSave?: { deserializer?: TDeserializer };
+    protected observers: TObservers = {
+        componentAdded: new Map(),
+        componentRemoved: new Map(),
+        entityRemoved: new Set(),
+    };
+    // prefabs from JSON are only deserialized on build, so that all components are registered
+    protected prefabDefinitions: { definitions: TPrefabDefinitions, deserializer?: TDeserializer }[] = [];
+    protected prefabs: Map<string, TPrefab> = new Map();
+    protected stages = defaultStages;
+    protected typeRegistry = new TypeRegistry();
+    protected save = new BinarySaveFormat({ typeRegistry: this.typeRegistry });
 
     addCallback(cb: (world: IWorld)=>void): IWorldBuilder {
         this.callbacks.add(cb);
@@ -18,12 +36,43 @@ export class WorldBuilder implements IWorldBuilder {
     }
 
     build(): IWorld {
-        const world = new World(this.systemInfos);
+        const world = new World(this.systemInfos, this.stages);
+        const prefabs = new Map(this.prefabs);
+        let definition;
+        let name;
+
+        for (const {definitions, deserializer} of this.prefabDefinitions) {
+            for ([name, definition] of Object.entries(definitions)) {
+                if (prefabs.has(name)) {
+                    throw new Error(`The prefab "${name}" is already registered!`);
+                }
+
+                prefabs.set(name, {
+                    extends: definition.extends,
+                    components: this.save.getComponents(definition.components, deserializer),
+                });
+            }
+        }
 
+        // later changes to the builder must not affect worlds, which were already built
+        world.setObservers({
+            componentAdded: new Map(Array.from(this.observers.componentAdded, ([type, observers]) => [type, new Set(observers)])),
+            componentRemoved: new Map(Array.from(this.observers.componentRemoved, ([type, observers]) => [type, new Set(observers)])),
+            entityRemoved: new Set(this.observers.entityRemoved),
+        });
+        world.setPrefabs(prefabs);
         world.setSaveFormat(this.save);
 
-        if (this.fromWorld) {
-            world.merge(this.fromWorld);
+        if (this.fromSave) {
+            const fromWorld = new World(new Map());
+            let entity;
+
+            for (entity of this.save.getEntities(this.fromSave.deserializer)) {
+                fromWorld.addEntity(entity);
+            }
+
+            world.merge(fromWorld);
+            world.restoreFromSave(this.save);
         }
 
         for (const cb of this.callbacks) {
@@ -33,35 +82,121 @@ export class WorldBuilder implements IWorldBuilder {
         return world;
     }
 
+    fromBinary(data: Uint8Array, deserializer?: TDeserializer): IWorldBuilder {
+        this.save.loadBinary(data);
+        this.fromSave = { deserializer };
+        return this;
+    }
+
     fromJSON(json: string, deserializer?: TDeserializer): IWorldBuilder {
         this.save.loadJSON(json);
-        this.fromWorld = new World(new Map());
-        let entity;
+        this.fromSave = { deserializer };
+        return this;
+    }
+
+    protected addComponentObserver<C extends Object>(
+        observers: Map<TObjectProto, Set<TComponentObserver<Object>>>,
+        Component: TTypeProto<C>,
+        observer: TComponentObserver<C>,
+    ): IWorldBuilder {
+        let componentObservers = observers.get(Component);
+
+        if (!componentObservers) {
+            componentObservers = new Set();
+            observers.set(Component, componentObservers);
+        }
+
+        componentObservers.add(observer as TComponentObserver<Object>);
+        return this;
+    }
+
+    onComponentAdded<C extends Object>(Component: TTypeProto<C>, observer: TComponentObserver<C>): IWorldBuilder {
+        return this.addComponentObserver(this.observers.componentAdded, Component, observer);
+    }
+
+    onComponentRemoved<C extends Object>(Component: TTypeProto<C>, observer: TComponentObserver<C>): IWorldBuilder {
+        return this.addComponentObserver(this.observers.componentRemoved, Component, observer);
+    }
+
+    onEntityRemoved(observer: TEntityObserver): IWorldBuilder {
+        this.observers.entityRemoved.add(observer);
+        return this;
+    }
 
-        for (entity of this.save.getEntities(deserializer)) {
-            this.fromWorld.addEntity(entity);
+    withPrefab(name: string, prefab: TPrefab): IWorldBuilder {
+        if (this.prefabs.has(name)) {
+            throw new Error(`The prefab "${name}" is already registered!`);
         }
 
+        this.prefabs.set(name, prefab);
         return this;
     }
 
-    withSystem(system: ISystem<TSystemData>, dependencies?: TSystemProto<TSystemData>[]): IWorldBuilder {
+    withPrefabsFromJSON(json: string, deserializer?: TDeserializer): IWorldBuilder {
+        this.prefabDefinitions.push({ definitions: JSON.parse(json) as TPrefabDefinitions, deserializer });
+        return this;
+    }
+
+    withResource(Resource: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string): IWorldBuilder {
+        this.save.registerResource(Resource, deserializer, serializer, id);
+        return this;
+    }
+
+    withStages(stages: string[]): IWorldBuilder {
+        if (new Set(stages).size != stages.length) {
+            throw new Error('The names of the stages must be unique!');
+        }
+
+        this.stages = stages;
+        return this;
+    }
+
+    withState(state: IState, id: string): IWorldBuilder {
+        this.save.registerState(state, id);
+        return this;
+    }
+
+    withSystem(system: ISystem<TSystemData>, dependencies?: TSystemProto<TSystemData>[], options: TSystemOptions = {}): IWorldBuilder {
         if (Array.from(this.systemInfos.values()).find(info => info.system.constructor == system.constructor)) {
             throw new Error(`The system ${system.constructor.name} is already registered!`);
         }
 
+        if (options.runCriteria?.interval !== undefined && !(Number.isInteger(options.runCriteria.interval) && options.runCriteria.interval > 0)) {
+            throw new Error(`The run interval of the system ${system.constructor.name} must be a positive integer!`);
+        }
+
+        this.typeRegistry.register(system.constructor as TObjectProto, options.id);
+
         this.systemInfos.set(system, {
+            after: new Set(options.after),
+            before: new Set(options.before),
             dataPrototype: system.SystemDataType,
             dataSet: new Set(),
             dependencies: new Set(dependencies),
+            labels: new Set(options.labels),
+            lastRunTick: 0,
+            runCriteria: options.runCriteria ?? {},
+            runTick: 0,
+            stage: options.stage ?? defaultStage,
             system,
+            worker: options.worker ? new SystemWorker(system, options.worker) : undefined,
         } as TSystemInfo<TSystemData>);
 
         return this;
     }
 
-    withComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer): IWorldBuilder {
-        this.save.registerComponent(Component, deserializer, serializer);
+    withComponent(Component: TObjectProto, deserializer: TCustomDeserializer, serializer?: TSerializer, id?: string): IWorldBuilder {
+        this.save.registerComponent(Component, deserializer, serializer, id);
+        return this;
+    }
+
+    withMigration(fromVersion: number, toVersion: number, migration: TMigration): IWorldBuilder {
+        this.save.registerMigration(fromVersion, toVersion, migration);
+        return this;
+    }
+
+    withRelation(Relation: TRelationProto, id?: string): IWorldBuilder {
+        this.save.registerRelation(Relation, id);
         return this;
     }
 }
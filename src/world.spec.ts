@@ -1,30 +1,91 @@
-import {IEntity} from "./entity.spec";
+import {IEntity, TEntityId} from "./entity.spec";
 import IEntityBuilder from "./entity-builder.spec";
 import ISystem, {TSystemData, TSystemProto} from "./system.spec";
 import IState from "./state.spec";
-import {TTypeProto} from "./_.spec";
-import {TSerializer} from "./save-format.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
+import {TDeserializer, TSaveOptions, TSerializer} from "./save-format.spec";
+import {Readable, Writable} from "stream";
+import {TSnapshot} from "./snapshot.spec";
+import {IRecorder, TRecording, TReplayOptions} from "./recorder.spec";
 import {TComponentAccess} from "./queue.spec";
+import {ISystemWorker} from "./worker.spec";
+import {IArchetype} from "./archetype.spec";
+import {ICommandBuffer} from "./command-buffer.spec";
+import {IEventReader, IEventWriter} from "./events.spec";
 
+export const defaultStage = 'Update';
+export const defaultStages = ['PreUpdate', defaultStage, 'PostUpdate', 'Render'];
+
+export type TComponentObserver<C extends Object> = (entity: IEntity, component: C) => void;
+export type TComponentTicks = {
+    added: number
+    changed: number
+};
 export type TEntityInfo = {
+    archetype: IArchetype
+    changeTicks: Map<TObjectProto, TComponentTicks>
+    // components as the world last saw them, so that observers get the instance of a removed component
+    components: Map<TObjectProto, Object>
     entity: IEntity
+    removedTicks: Map<TObjectProto, number>
     usage: Map<TSystemInfo<TSystemData>, TSystemData>
 };
+export type TEntityObserver = (entity: IEntity) => void;
+export type TObservers = {
+    componentAdded: Map<TObjectProto, Set<TComponentObserver<Object>>>
+    componentRemoved: Map<TObjectProto, Set<TComponentObserver<Object>>>
+    entityRemoved: Set<TEntityObserver>
+};
+export type TRunCriteria = {
+    // only run the system in every n-th iteration, based on the tick of the Time resource
+    interval?: number
+    // only run the system, if the predicate returns true at the start of its execution group
+    predicate?: (actions: ISystemActions) => boolean
+    // do not run the system, if no entity matches its data (considering change filters)
+    skipWhenEmpty?: boolean
+};
 export type TRunConfiguration = {
+    // duration of one iteration in seconds (for example 1/60). If not set, each frame is one iteration of variable length
+    fixedTimestep?: number,
     initialState?: IState,
+    // maximum number of fixed iterations per frame, in order to catch up with real time. Defaults to 5
+    maxCatchUpSteps?: number,
+    // record the run, so that it can be replayed later on
+    recorder?: IRecorder,
     // called in-between world dispatches during a run
     transitionHandler?: (actions: ITransitionActions) => Promise<void>
 };
 export type TStaticRunConfiguration = {
+    fixedTimestep?: number,
     initialState: IState,
+    maxCatchUpSteps: number,
     transitionHandler: (actions: ITransitionActions) => Promise<void>
 };
+export type TSystemAccess = {
+    read: Set<TObjectProto>
+    write: Set<TObjectProto>
+};
 export type TSystemInfo<D extends TSystemData> = {
+    // systems or labels, which have to run before this system
+    after: Set<TSystemRef>
+    // systems or labels, which have to run after this system
+    before: Set<TSystemRef>
     dataPrototype: TTypeProto<D>
     dataSet: Set<D>
     dependencies: Set<TSystemProto<TSystemData>>
+    labels: Set<string>
+    // change tick at the start of the previous run, used for change detection
+    lastRunTick: number
+    runCriteria: TRunCriteria
+    // change tick of the current run
+    runTick: number
+    // name of the stage, which determines the order of groups of systems
+    stage: string
     system: ISystem<D>
+    worker?: ISystemWorker<D>
 };
+/// a system prototype or a label of systems
+export type TSystemRef = TSystemProto<TSystemData> | string;
 export type TSystemNode = { system: ISystem<TSystemData>, dependencies: TSystemProto<TSystemData>[]};
 
 export interface IPartialWorld {
@@ -63,6 +124,18 @@ export interface IPartialWorld {
      */
     getEntities<C extends Object, T extends TComponentAccess<C>>(query?: T[]): IterableIterator<IEntity>
 
+    /**
+     * Find an entity of this world by its id
+     * @param id
+     */
+    getEntityById(id: TEntityId): IEntity | undefined
+
+    /**
+     * Get copies of the components of a prefab, including the inherited ones
+     * @param name
+     */
+    getPrefabComponents(name: string): Object[]
+
     /**
      * Get a resource which was previously stored
      * @param type
@@ -70,7 +143,14 @@ export interface IPartialWorld {
     getResource<T extends Object>(type: TTypeProto<T>): T
 
     /**
-     * Re-calculate all entity, component and system dependencies and connections
+     * Check if a resource of a certain type is stored
+     * @param type
+     */
+    hasResource<T extends Object>(type: TTypeProto<T>): boolean
+
+    /**
+     * Re-calculate all entity, component and system dependencies and connections.
+     * The world keeps them up to date on every change, so this is never required for consistency.
      */
     maintain(): void
 
@@ -104,16 +184,29 @@ export interface IPartialWorld {
      */
     stopRun(): void
 
+    /**
+     * Save this world to a compact binary buffer (entities and their components)
+     * @param serializer
+     * @param options additionally save registered resources and the state stack
+     */
+    toBinary(serializer?: TSerializer, options?: TSaveOptions): Uint8Array
+
     /**
      * Save this world to a JSON string (entities and their components)
+     * @param serializer
+     * @param options additionally save registered resources and the state stack
      */
-    toJSON(serializer?: TSerializer): string
+    toJSON(serializer?: TSerializer, options?: TSaveOptions): string
 }
 
 /**
  * Actions which can be called from a system run
  */
 export interface ISystemActions {
+    /**
+     * Structural changes, which are applied at the end of the current iteration, before the transition handler
+     */
+    readonly commands: ICommandBuffer
     readonly currentState: IState | undefined
 
     /**
@@ -122,6 +215,26 @@ export interface ISystemActions {
      */
     getEntities<C extends Object, T extends TComponentAccess<C>>(query?: T[]): IterableIterator<IEntity>
 
+    /**
+     * Get the reader of this system for events of a type.
+     * Call it during setup, so that the system is scheduled after all writers of the event type
+     * @param type
+     */
+    getEventReader<E extends Object>(type: TTypeProto<E>): IEventReader<E>
+
+    /**
+     * Get a writer for events of a type.
+     * Call it during setup, so that the system is scheduled before all readers of the event type
+     * @param type
+     */
+    getEventWriter<E extends Object>(type: TTypeProto<E>): IEventWriter<E>
+
+    /**
+     * Find an entity by its id
+     * @param id
+     */
+    getEntityById(id: TEntityId): IEntity | undefined
+
     /**
      * Get a resource which was previously stored
      * @param type
@@ -135,16 +248,37 @@ export interface ISystemActions {
 export interface ITransitionActions extends IPartialWorld {
     readonly currentState: IState | undefined
 
+    /**
+     * Replace the whole state stack of the running world with a new state.
+     * Only the current state is deactivated, before the new state is created (if it is new to this run) and activated
+     * @param newState
+     */
+    clearAndPush(newState: IState): Promise<void>
+
     /**
      * Revert the running world to a previous state
      */
     popState(): Promise<void>
 
+    /**
+     * Revert the running world to the topmost state of a type on the state stack.
+     * Only the current state is deactivated, the states in-between are dropped, and then the target state is activated
+     * @param State
+     */
+    popToState(State: TTypeProto<IState>): Promise<void>
+
     /**
      * Change the running world to a new state
      * @param newState
      */
     pushState(newState: IState): Promise<void>
+
+    /**
+     * Replace the current state of the running world with a new state, without activating the state below in-between.
+     * The current state is deactivated, before the new state is created (if it is new to this run) and activated
+     * @param newState
+     */
+    switchState(newState: IState): Promise<void>
 }
 
 export interface IWorld extends IPartialWorld {
@@ -159,19 +293,69 @@ export interface IWorld extends IPartialWorld {
      */
     dispatch(state?: IState): Promise<void>
 
+    /**
+     * Get the groups of systems in the order they are executed for a state.
+     * All systems inside of one group run in parallel.
+     * @param state
+     */
+    getExecutionPlan(state?: IState): ISystem<TSystemData>[][]
+
+    /**
+     * Add the entities of a stream to this world, which are read one by one (header on the first line, then one entity per line).
+     * Migrations are called with one entity at a time, so they must not depend on other entities.
+     * @param stream
+     * @param deserializer
+     */
+    loadFromStream(stream: Readable, deserializer?: TDeserializer): Promise<void>
+
+    /**
+     * Re-run a recording frame by frame, starting with its snapshot and applying all recorded actions.
+     * The replay works on copies of the recorded entities, so the recorded world is not affected.
+     * Only changes done through the transition actions are recorded, and changes done by systems are reproduced by running them
+     * @param recording
+     * @param options
+     */
+    replay(recording: TRecording, options?: TReplayOptions): Promise<void>
+
+    /**
+     * Reset the world to a snapshot, rebuilding the data of all systems
+     * @param snapshot
+     */
+    restore(snapshot: TSnapshot): void
+
     /**
      * Execute all systems continuously in a dispatch-loop
      * Contains performance benefits by pre-calculating and pre-scheduling the execution
      * @param configuration
      */
     run(configuration?: TRunConfiguration): Promise<void>
+
+    /**
+     * Write this world to a stream entity by entity (header on the first line, then one entity per line).
+     * The stream is not ended.
+     * @param stream
+     * @param serializer
+     * @param options additionally save registered resources and the state stack
+     */
+    saveToStream(stream: Writable, serializer?: TSerializer, options?: TSaveOptions): Promise<void>
+
+    /**
+     * Create an in-memory copy of all entities, components and resources, which can be restored later on.
+     * Repeated snapshots share the copies of unchanged objects.
+     * Components count as changed, if they were added or accessed through Write() since the last snapshot,
+     * so changes done directly on components outside of systems are not picked up
+     */
+    snapshot(): TSnapshot
 }
 
 export interface IEntityWorld extends IPartialWorld {
-    readonly isDirty: boolean
     readonly isRunning: boolean
-    assignEntityToSystems(entity: IEntity): void
-    removeEntityFromSystems(entity: IEntity): void
+
+    /**
+     * Re-evaluate an entity after its components changed
+     * @param entity
+     */
+    updateEntity(entity: IEntity): void
 }
 
 export type TWorldProto = { new(): IWorld };
@@ -0,0 +1,91 @@
+import {expect} from 'chai';
+import {WorldBuilder} from "./world-builder";
+import {System, SystemData} from "./system";
+import {Read, Write} from "./queue.spec";
+import {C1, C2} from "./tests/components";
+import {IWorld} from "./world.spec";
+
+class ReadC1Data extends SystemData { c1 = Read(C1) }
+class WriteC1Data extends SystemData { c1 = Write(C1) }
+class WriteC2Data extends SystemData { c2 = Write(C2) }
+
+class ReaderA extends System<ReadC1Data> {
+    readonly SystemDataType = ReadC1Data;
+    async run(dataSet: Set<ReadC1Data>): Promise<void> {}
+}
+
+class ReaderB extends System<ReadC1Data> {
+    readonly SystemDataType = ReadC1Data;
+    async run(dataSet: Set<ReadC1Data>): Promise<void> {}
+}
+
+class WriterA extends System<WriteC1Data> {
+    readonly SystemDataType = WriteC1Data;
+    async run(dataSet: Set<WriteC1Data>): Promise<void> {}
+}
+
+class WriterB extends System<WriteC1Data> {
+    readonly SystemDataType = WriteC1Data;
+    async run(dataSet: Set<WriteC1Data>): Promise<void> {}
+}
+
+class WriterC2 extends System<WriteC2Data> {
+    readonly SystemDataType = WriteC2Data;
+    async run(dataSet: Set<WriteC2Data>): Promise<void> {}
+}
+
+const getPlan = (world: IWorld) => world.getExecutionPlan().map(group => group.map(system => system.constructor));
+
+describe('Test World', () => {
+    it('getExecutionPlan() readers share a group', () => {
+        const world = new WorldBuilder().withSystem(new ReaderA()).withSystem(new ReaderB()).build();
+
+        expect(getPlan(world)).deep.eq([[ReaderA, ReaderB]]);
+    });
+
+    it('getExecutionPlan() writers are serialized', () => {
+        const world = new WorldBuilder().withSystem(new WriterA()).withSystem(new ReaderA()).withSystem(new WriterB()).build();
+
+        expect(getPlan(world)).deep.eq([[WriterA], [ReaderA], [WriterB]]);
+    });
+
+    it('getExecutionPlan() dependents start after their own dependencies', () => {
+        const world = new WorldBuilder()
+            .withSystem(new WriterA())
+            .withSystem(new WriterB())
+            .withSystem(new WriterC2(), [WriterA])
+            .build();
+
+        expect(getPlan(world)).deep.eq([[WriterA], [WriterB, WriterC2]]);
+    });
+
+    it('getExecutionPlan() stages run in order', () => {
+        const world = new WorldBuilder()
+            .withSystem(new ReaderA(), [], { stage: 'PostUpdate' })
+            .withSystem(new ReaderB())
+            .build();
+
+        expect(getPlan(world)).deep.eq([[ReaderB], [ReaderA]]);
+        expect(() => new WorldBuilder().withSystem(new ReaderA(), [], { stage: 'Physics' }).build())
+            .to.throw('The stage "Physics" of the system ReaderA does not exist!');
+    });
+
+    it('getExecutionPlan() before and after systems and labels', () => {
+        const world = new WorldBuilder()
+            .withSystem(new ReaderB(), [], { after: ['input'] })
+            .withSystem(new ReaderA(), [], { labels: ['input'] })
+            .withSystem(new WriterC2(), [], { before: [ReaderA] })
+            .build();
+
+        expect(getPlan(world)).deep.eq([[WriterC2], [ReaderA], [ReaderB]]);
+    });
+
+    it('name the systems of a cycle', () => {
+        const builder = new WorldBuilder()
+            .withSystem(new ReaderA(), [], { after: [ReaderB] })
+            .withSystem(new ReaderB(), [], { after: ['last'] })
+            .withSystem(new WriterC2(), [], { labels: ['last'], after: [ReaderA] });
+
+        expect(() => builder.build()).to.throw('The system dependency graph is cyclic: ReaderA -> WriterC2 -> ReaderB -> ReaderA!');
+    });
+});
@@ -1,103 +1,185 @@
 import {Entity} from "./entity";
 import {EntityBuilder} from "./entity-builder";
 import {
+    defaultStages,
     IEntityWorld, IPartialWorld,
     ISystemActions,
     ITransitionActions,
     IWorld,
+    TComponentObserver,
     TEntityInfo,
+    TObservers,
     TRunConfiguration,
     TStaticRunConfiguration,
+    TSystemAccess,
     TSystemInfo,
-    TSystemNode
+    TSystemNode,
+    TSystemRef
 } from "./world.spec";
-import IEntity from "./entity.spec";
+import IEntity, {TEntityId} from "./entity.spec";
 import IEntityBuilder from "./entity-builder.spec";
-import ISystem, {TSystemData, TSystemProto} from "./system.spec";
+import ISystem, {NoData, TSystemData, TSystemProto} from "./system.spec";
 import {IState, State} from "./state";
-import {TTypeProto} from "./_.spec";
+import {TObjectProto, TTypeProto} from "./_.spec";
 import {PushDownAutomaton} from "./pda";
-import {SaveFormat} from "./save-format";
-import {ISaveFormat, TSerializer} from "./save-format.spec";
+import {BinarySaveFormat, IBinarySaveFormat} from "./binary-save-format";
+import {ISaveFormat, TDeserializer, TSaveOptions, TSerializer} from "./save-format.spec";
+import {Readable, Writable} from "stream";
+import {deepCopy, deepEqual, deepFreeze, restoreInPlace, TSnapshot} from "./snapshot";
+import {hashState, TRecording, TReplayOptions} from "./recorder";
 import {access, EAccess, TComponentAccess} from "./queue.spec";
+import {Time} from "./time";
+import {Archetype} from "./archetype";
+import {CommandBuffer} from "./command-buffer";
+import {Relation} from "./relation";
+import {TRelationProto} from "./relation.spec";
+import {TPrefab} from "./prefab.spec";
+import {EventChannel, EventReader, EventWriter, IEventReader, IEventWriter} from "./events";
 
 export * from './world.spec';
 
+/**
+ * Check if one of the accesses writes a type, which the other one reads or writes
+ * @param accessA
+ * @param accessB
+ */
+const hasConflict = function (accessA: TSystemAccess, accessB: TSystemAccess): boolean {
+    let type;
+
+    for (type of accessA.write) {
+        if (accessB.read.has(type) || accessB.write.has(type)) {
+            return true;
+        }
+    }
+
+    for (type of accessB.write) {
+        if (accessA.read.has(type)) {
+            return true;
+        }
+    }
+
+    return false;
+};
+
 export class World implements IWorld {
-    protected dirty = false;
+    protected archetypes: Map<string, Archetype> = new Map();
+    protected changeFilters: Map<TSystemInfo<TSystemData>, TComponentAccess<Object>[]> = new Map();
+    protected changeTick = 0;
+    protected commandBuffers: Map<TSystemInfo<TSystemData>, CommandBuffer> = new Map();
+    // states, whose create() was called during the current run
+    protected createdStates: Set<IState> = new Set();
+    protected dataEntities: WeakMap<TSystemData, TEntityInfo> = new WeakMap();
+    protected dataFields: Map<TSystemInfo<TSystemData>, [string, TComponentAccess<Object>][]> = new Map();
+    protected entityIds: Map<TEntityId, IEntity> = new Map();
     protected entityInfos: Map<IEntity, TEntityInfo> = new Map();
     protected entityWorld: IEntityWorld;
+    // event types, which each system reads and writes
+    protected eventAccess: Map<TSystemInfo<TSystemData>, TSystemAccess> = new Map();
+    protected eventChannels: Map<TObjectProto, EventChannel<Object>> = new Map();
+    protected eventReaders: Map<TSystemInfo<TSystemData>, Map<TObjectProto, EventReader<Object>>> = new Map();
+    protected observers: TObservers = {
+        componentAdded: new Map(),
+        componentRemoved: new Map(),
+        entityRemoved: new Set(),
+    };
     protected pda = new PushDownAutomaton<IState>();
+    protected prefabs: Map<string, TPrefab> = new Map();
+    // entities, which hold a relation to a target, so that removing the target does not have to scan all entities
+    protected relatedEntities: Map<IEntity, Set<IEntity>> = new Map();
     protected resources = new Map<{ new(): Object }, Object>();
     protected runExecutionPipeline: Set<TSystemInfo<TSystemData>>[] = [];
-    protected runExecutionPipelineCache: Map<IState, Set<TSystemInfo<TSystemData>>[]> = new Map();
     protected runPromise?: Promise<void> = undefined;
-    protected saveFormat?: ISaveFormat;
+    // state stack of a loaded save, from the bottom to the current state
+    protected savedStates?: IState[];
+    protected saveFormat?: IBinarySaveFormat;
     protected shouldRunSystems = false;
+    // frozen snapshot copy of each live object, which is re-used by the next snapshot if the object did not change
+    protected snapshotCopies = new WeakMap<Object, Object>();
+    // change tick of the last snapshot, so that components, which did not change since then, can re-use their copy
+    protected snapshotTick = 0;
     protected sortedSystems: TSystemInfo<TSystemData>[];
+    // all systems, which have to run before a system, derived from its dependencies, stage, ordering constraints and events
+    protected systemDependencies: Map<TSystemInfo<TSystemData>, Set<TSystemProto<TSystemData>>> = new Map();
+    protected systemAccess: Map<TSystemInfo<TSystemData>, TSystemAccess> = new Map();
+    protected systemActions: Map<TSystemInfo<TSystemData>, ISystemActions> = new Map();
     protected systemInfos: Map<ISystem<TSystemData>, TSystemInfo<TSystemData>>;
-    protected systemWorld: ISystemActions;
+    protected stages: string[];
     protected transitionWorld: ITransitionActions;
 
-    constructor(systemInfos: Map<ISystem<TSystemData>, TSystemInfo<TSystemData>>) {
+    constructor(systemInfos: Map<ISystem<TSystemData>, TSystemInfo<TSystemData>>, stages: string[] = defaultStages) {
         const self = this;
 
-        this.systemWorld = Object.freeze({
-            get currentState(): IState | undefined { return self.pda.state; },
-            getEntities: this.getEntities.bind(this),
-            getResource: this.getResource.bind(this),
-        });
-
         this.transitionWorld = Object.freeze({
             get currentState(): IState | undefined { return self.pda.state; },
-            addEntity: (entity) => { self.addEntity(entity); self.assignEntityToSystems(entity); },
+            addEntity: this.addEntity.bind(this),
             addResource: this.addResource.bind(this),
             buildEntity: () => this.buildEntity.call(this, this.transitionWorld),
+            clearAndPush: this.clearAndPush.bind(this),
             createEntity: this.createEntity.bind(this),
             getEntities: this.getEntities.bind(this),
+            getEntityById: this.getEntityById.bind(this),
+            getPrefabComponents: this.getPrefabComponents.bind(this),
             getResource: this.getResource.bind(this),
+            hasResource: this.hasResource.bind(this),
             maintain: this.maintain.bind(this),
             merge: this.merge.bind(this),
             popState: this.popState.bind(this),
+            popToState: this.popToState.bind(this),
             pushState: this.pushState.bind(this),
-            removeEntity: (entity) => {
-                this.removeEntityFromSystems(entity);
-                this.removeEntity(entity); },
+            removeEntity: this.removeEntity.bind(this),
             removeResource: this.removeResource.bind(this),
             replaceResource: this.replaceResource.bind(this),
             stopRun: this.stopRun.bind(this),
+            switchState: this.switchState.bind(this),
+            toBinary: this.toBinary.bind(this),
             toJSON: this.toJSON.bind(this),
         });
 
         this.entityWorld = Object.freeze({
-            get isDirty(): boolean { return self.dirty; },
             get isRunning(): boolean { return !!self.runPromise; },
             addEntity: this.addEntity.bind(this),
             addResource: this.addResource.bind(this),
-            assignEntityToSystems: this.assignEntityToSystems.bind(this),
             buildEntity: () => this.buildEntity.call(this, this.transitionWorld),
             createEntity: this.createEntity.bind(this),
             getEntities: this.getEntities.bind(this),
+            getEntityById: this.getEntityById.bind(this),
+            getPrefabComponents: this.getPrefabComponents.bind(this),
             getResource: this.getResource.bind(this),
+            hasResource: this.hasResource.bind(this),
             maintain: this.maintain.bind(this),
             merge: this.merge.bind(this),
-            removeEntity: this.removeEntity.bind(this),
-            removeEntityFromSystems: this.removeEntityFromSystems.bind(this),
+            removeEntity: this.detachEntity.bind(this),
             removeResource: this.removeResource.bind(this),
             replaceResource: this.replaceResource.bind(this),
             stopRun: this.stopRun.bind(this),
+            toBinary: this.toBinary.bind(this),
             toJSON: this.toJSON.bind(this),
+            updateEntity: this.updateEntity.bind(this),
         });
 
-        for (const system of systemInfos.keys()) {
-            this.addResource(system);
+        for (const systemInfo of systemInfos.values()) {
+            const commands = new CommandBuffer();
+
+            this.addResource(systemInfo.system);
+            this.commandBuffers.set(systemInfo, commands);
+            this.eventAccess.set(systemInfo, { read: new Set(), write: new Set() });
+            this.eventReaders.set(systemInfo, new Map());
+            this.systemActions.set(systemInfo, Object.freeze({
+                get currentState(): IState | undefined { return self.pda.state; },
+                commands,
+                getEntities: this.getEntities.bind(this),
+                getEventReader: <E extends Object>(type: TTypeProto<E>) => this.getEventReader(systemInfo, type),
+                getEventWriter: <E extends Object>(type: TTypeProto<E>) => this.getEventWriter(systemInfo, type),
+                getEntityById: this.getEntityById.bind(this),
+                getResource: this.getResource.bind(this),
+            }));
         }
 
+        this.addResource(Time);
+
+        this.stages = stages;
         this.systemInfos = systemInfos;
-        this.sortedSystems = this.sortSystems(Array.from(this.systemInfos.values()).map(info => ({
-            system: info.system,
-            dependencies: Array.from(info.dependencies),
-        }))).map(node => this.systemInfos.get(node.system) as TSystemInfo<TSystemData>);
+        this.sortedSystems = this.orderSystems();
     }
 
     get systems(): ISystem<TSystemData>[] {
@@ -106,13 +188,32 @@ export class World implements IWorld {
 
     addEntity(entity: IEntity) {
         if (!this.entityInfos.has(entity)) {
+            if (this.entityIds.has(entity.id)) {
+                throw new Error(`An entity with the id ${entity.id} already exists!`);
+            }
+
+            const components = Archetype.getComponentTypes(entity);
+            const archetype = this.getArchetype(components);
+            const tick = ++this.changeTick;
+
+            archetype.entities.add(entity);
+            this.entityIds.set(entity.id, entity);
             this.entityInfos.set(entity, {
+                archetype,
+                changeTicks: new Map(components.map(component => [component, { added: tick, changed: tick }])),
+                components: new Map(components.map(component => [component, entity.getComponent(component) as Object])),
                 entity,
+                removedTicks: new Map(),
                 usage: new Map(),
             });
-            this.dirty = true;
 
             entity.changeWorldTo(this.entityWorld);
+            this.assignEntityToSystems(entity);
+
+            for (const component of Array.from(entity.getComponents())) {
+                this.indexRelation(entity, component);
+                this.notifyComponentObservers(this.observers.componentAdded, entity, component);
+            }
         }
     }
 
@@ -136,13 +237,48 @@ export class World implements IWorld {
         this.resources.set(type, instance);
     }
 
-    private static assignEntityToSystem(systemInfo: TSystemInfo<TSystemData>, entityInfo: TEntityInfo): boolean {
-        if (!systemInfo.system.canUseEntity(entityInfo.entity)) return false;
+    /**
+     * Apply the commands recorded by systems in the order of the sorted systems,
+     * so that the result does not depend on which system of an execution group finished first
+     */
+    protected applyCommands(): void {
+        let commands;
+        let systemInfo;
+
+        for (systemInfo of this.sortedSystems) {
+            commands = this.commandBuffers.get(systemInfo);
+
+            if (commands && !commands.isEmpty) {
+                commands.apply(this);
+            }
+        }
+    }
+
+    /**
+     * Apply the state transitions recorded by systems in the order of the sorted systems,
+     * after the structural changes of all systems were applied
+     */
+    protected async applyTransitions(): Promise<void> {
+        let commands;
+        let systemInfo;
+
+        for (systemInfo of this.sortedSystems) {
+            commands = this.commandBuffers.get(systemInfo);
 
-        const data = World.buildDataObject(systemInfo.dataPrototype, entityInfo.entity);
+            if (commands?.hasTransitions) {
+                await commands.applyTransitions(this.transitionWorld);
+            }
+        }
+    }
+
+    protected assignEntityToSystem(systemInfo: TSystemInfo<TSystemData>, entityInfo: TEntityInfo): boolean {
+        if (entityInfo.usage.has(systemInfo) || !entityInfo.archetype.canBeUsedBy(systemInfo.system)) return false;
+
+        const data = this.buildDataObject(systemInfo, entityInfo);
 
         systemInfo.dataSet.add(data);
         entityInfo.usage.set(systemInfo, data);
+        this.dataEntities.set(data, entityInfo);
         return true;
     }
 
@@ -152,36 +288,13 @@ export class World implements IWorld {
 
         let systemInfo;
         for (systemInfo of this.systemInfos.values()) {
-            World.assignEntityToSystem(systemInfo, entityInfo);
+            this.assignEntityToSystem(systemInfo, entityInfo);
         }
     }
 
-    private static buildDataObject<T extends TSystemData>(dataProto: TTypeProto<TSystemData>, entity: IEntity): T {
-        const dataObj = new dataProto() as T;
-        let accessType: EAccess;
-        let component;
-
-        for (const entry of Object.entries(dataObj)) {
-            // @ts-ignore
-            accessType = entry[1][access].type;
-            // @ts-ignore
-            component = entry[1][access].component;
-
-            if (accessType == EAccess.META) {
-                switch (component) {
-                    case Entity: {
-                        // @ts-ignore
-                        dataObj[entry[0]] = entity;
-                        break;
-                    }
-                }
-            }
-            else {
-                // @ts-ignore
-                dataObj[entry[0]] = entity.getComponent(component);
-            }
-        }
-
+    protected buildDataObject<T extends TSystemData>(systemInfo: TSystemInfo<T>, entityInfo: TEntityInfo): T {
+        const dataObj = new systemInfo.dataPrototype();
+        this.fillDataObject(dataObj, systemInfo, entityInfo);
         return dataObj;
     }
 
@@ -189,15 +302,63 @@ export class World implements IWorld {
         return new EntityBuilder(world ?? this);
     }
 
+    protected async clearAndPush(newState: IState): Promise<void> {
+        await this.pda.state?.deactivate(this.transitionWorld);
+        this.pda.clear();
+        await this.enterState(newState);
+    }
+
+    /**
+     * Copy a component of a recording, so that the replay does not share any objects with the recorded world
+     * @param component
+     * @param getEntityById lookup of the entities of the replay, which relations must point to
+     */
+    protected copyRecordedComponent(component: Object, getEntityById: (id: TEntityId) => IEntity | undefined): Object {
+        const copy = this.saveFormat?.clone(component) ?? deepCopy(component);
+
+        if (copy instanceof Relation) {
+            for (const target of Array.from(copy.targets)) {
+                copy.targets.delete(target);
+                copy.targets.add(getEntityById(target.id) ?? target);
+            }
+        }
+
+        return copy;
+    }
+
     createEntity(): Entity {
         const entity = new Entity();
-        this.entityInfos.set(entity, {
-            entity,
-            usage: new Map(),
-        });
+        this.addEntity(entity);
         return entity;
     }
 
+    /**
+     * Take an entity out of this world without touching its relations, for example in order to move it to another world
+     * @param entity
+     */
+    protected detachEntity(entity: IEntity): void {
+        const entityInfo = this.entityInfos.get(entity);
+
+        if (entityInfo) {
+            this.removeEntityFromSystems(entity);
+            entityInfo.archetype.entities.delete(entity);
+            this.entityIds.delete(entity.id);
+            this.entityInfos.delete(entity);
+            entity.changeWorldTo(undefined);
+
+            for (const component of entityInfo.components.values()) {
+                this.unindexRelation(entity, component);
+                this.notifyComponentObservers(this.observers.componentRemoved, entity, component);
+            }
+
+            this.relatedEntities.delete(entity);
+
+            for (const observer of this.observers.entityRemoved) {
+                observer(entity);
+            }
+        }
+    }
+
     dispatch(state?: IState): Promise<void> {
         return this.run({
             initialState: state,
@@ -205,23 +366,222 @@ export class World implements IWorld {
         });
     }
 
+    /**
+     * Put a state on top of the stack, create it if it is new to this run, and activate it.
+     * The previous state must already be deactivated
+     * @param newState
+     */
+    protected async enterState(newState: IState): Promise<void> {
+        this.pda.push(newState);
+        this.runExecutionPipeline = this.prepareExecutionPipeline(this.getActiveSystems());
+
+        if (!this.createdStates.has(newState)) {
+            this.createdStates.add(newState);
+            await newState.create(this.transitionWorld);
+        }
+
+        await newState.activate(this.transitionWorld);
+    }
+
+    /**
+     * Collect the systems of the current state and, through transparent states, the ones of the states below.
+     * All systems are active, if there is no state
+     */
+    protected getActiveSystems(): Set<ISystem<TSystemData>> {
+        const states = this.pda.states;
+        const systems: Set<ISystem<TSystemData>> = new Set();
+        // transparent states above the current one, which may filter its systems
+        const overlays: IState[] = [];
+        let i;
+        let system: ISystem<TSystemData>;
+
+        if (states.length == 0) {
+            return new Set(this.systemInfos.keys());
+        }
+
+        for (i = states.length - 1; i >= 0; i--) {
+            for (system of states[i].systems) {
+                if (overlays.every(overlay => overlay.filterUnderlyingSystem?.(system) ?? true)) {
+                    systems.add(system);
+                }
+            }
+
+            if (!states[i].transparent) {
+                break;
+            }
+
+            overlays.push(states[i]);
+        }
+
+        return systems;
+    }
+
     getEntities<C extends Object, T extends TComponentAccess<C>>(query?: T[]): IterableIterator<IEntity> {
         if (!query) {
             return this.entityInfos.keys();
         }
 
         const resultEntities = new Set<IEntity>();
-        let entityInfo;
+        // relations have to be checked for each entity, the rest of the query is the same for the whole archetype
+        const checkEntities = !!query.find(requirement => requirement[access].type == EAccess.RELATED);
+        let archetype;
+        let entity;
 
-        for (entityInfo of this.entityInfos.values()) {
-            if (entityInfo.entity.matchesQueue(query)) {
-                resultEntities.add(entityInfo.entity);
+        for (archetype of this.archetypes.values()) {
+            if (archetype.matchesQueue(query)) {
+                for (entity of archetype.entities) {
+                    if (!checkEntities || entity.matchesQueue(query)) {
+                        resultEntities.add(entity);
+                    }
+                }
             }
         }
 
         return resultEntities.values();
     }
 
+    getEntityById(id: TEntityId): IEntity | undefined {
+        return this.entityIds.get(id);
+    }
+
+    /**
+     * Get the subset of a system's data set, which passes its change detection filters
+     * @param systemInfo
+     */
+    protected getChangedData(systemInfo: TSystemInfo<TSystemData>): Set<TSystemData> {
+        let filters = this.changeFilters.get(systemInfo);
+
+        if (!filters) {
+            filters = this.getDataFields(systemInfo).map(field => field[1]).filter(componentAccess =>
+                componentAccess[access].type == EAccess.ADDED
+                || componentAccess[access].type == EAccess.CHANGED
+                || componentAccess[access].type == EAccess.REMOVED
+            );
+            this.changeFilters.set(systemInfo, filters);
+        }
+
+        if (filters.length == 0) {
+            return systemInfo.dataSet;
+        }
+
+        const result = new Set<TSystemData>();
+        let data;
+        let entityInfo;
+        let filter;
+        let tick;
+
+        nextData: for (data of systemInfo.dataSet) {
+            entityInfo = this.dataEntities.get(data) as TEntityInfo;
+
+            for (filter of filters) {
+                switch (filter[access].type) {
+                    case EAccess.ADDED: tick = entityInfo.changeTicks.get(filter[access].component)?.added; break;
+                    case EAccess.CHANGED: tick = entityInfo.changeTicks.get(filter[access].component)?.changed; break;
+                    default: tick = entityInfo.removedTicks.get(filter[access].component);
+                }
+
+                if (tick === undefined || tick <= systemInfo.lastRunTick) {
+                    continue nextData;
+                }
+            }
+
+            result.add(data);
+        }
+
+        return result;
+    }
+
+    protected getArchetype(components: Iterable<TObjectProto>): Archetype {
+        const key = Archetype.keyOf(components);
+        let archetype = this.archetypes.get(key);
+
+        if (!archetype) {
+            archetype = new Archetype(components);
+            this.archetypes.set(key, archetype);
+        }
+
+        return archetype;
+    }
+
+    protected getDataFields(systemInfo: TSystemInfo<TSystemData>): [string, TComponentAccess<Object>][] {
+        let fields = this.dataFields.get(systemInfo);
+
+        if (!fields) {
+            fields = systemInfo.dataPrototype.prototype == NoData.prototype
+                ? []
+                : Object.entries(new systemInfo.dataPrototype()) as [string, TComponentAccess<Object>][];
+            this.dataFields.set(systemInfo, fields);
+        }
+
+        return fields;
+    }
+
+    protected getEventChannel<E extends Object>(type: TTypeProto<E>): EventChannel<E> {
+        let channel = this.eventChannels.get(type);
+
+        if (!channel) {
+            channel = new EventChannel();
+            this.eventChannels.set(type, channel);
+        }
+
+        return channel as EventChannel<E>;
+    }
+
+    protected getEventReader<E extends Object>(systemInfo: TSystemInfo<TSystemData>, type: TTypeProto<E>): IEventReader<E> {
+        const readers = this.eventReaders.get(systemInfo) as Map<TObjectProto, EventReader<Object>>;
+        let reader = readers.get(type);
+
+        // setup is called on every run, so the reader has to be re-used in order to keep its position
+        if (!reader) {
+            reader = new EventReader(this.getEventChannel(type));
+            readers.set(type, reader);
+            (this.eventAccess.get(systemInfo) as TSystemAccess).read.add(type);
+        }
+
+        return reader as EventReader<E>;
+    }
+
+    protected getEventWriter<E extends Object>(systemInfo: TSystemInfo<TSystemData>, type: TTypeProto<E>): IEventWriter<E> {
+        (this.eventAccess.get(systemInfo) as TSystemAccess).write.add(type);
+        return new EventWriter(this.getEventChannel(type));
+    }
+
+    getExecutionPlan(state?: IState): ISystem<TSystemData>[][] {
+        return this.prepareExecutionPipeline(state?.systems ?? new Set(this.systemInfos.keys()))
+            .map(executionGroup => Array.from(executionGroup).map(systemInfo => systemInfo.system));
+    }
+
+    getPrefabComponents(name: string): Object[] {
+        const components = new Map<TObjectProto, Object>();
+        const prefabs: TPrefab[] = [];
+        let prefab;
+        let prefabName: string | undefined = name;
+
+        while (prefabName !== undefined) {
+            prefab = this.prefabs.get(prefabName);
+
+            if (!prefab) {
+                throw new Error(`Prefab "${prefabName}" does not exist!`);
+            }
+
+            if (prefabs.includes(prefab)) {
+                throw new Error(`The prefab "${name}" inherits from itself!`);
+            }
+
+            prefabs.unshift(prefab);
+            prefabName = prefab.extends;
+        }
+
+        // children override the components of their ancestors
+        for (prefab of prefabs) {
+            for (const component of prefab.components) {
+                components.set(component.constructor as TObjectProto, component);
+            }
+        }
+
+        return Array.from(components.values()).map(component => this.saveFormat?.clone(component) ?? deepCopy(component));
+    }
+
     getResource<T extends Object>(type: TTypeProto<T>): T {
         if (!this.resources.has(type)) {
             throw new Error(`Resource of type "${type.name}" does not exist!`);
@@ -230,21 +590,190 @@ export class World implements IWorld {
         return this.resources.get(type) as T;
     }
 
+    protected getSystemAccess(systemInfo: TSystemInfo<TSystemData>): TSystemAccess {
+        let systemAccess = this.systemAccess.get(systemInfo);
+
+        if (!systemAccess) {
+            systemAccess = {
+                read: new Set(),
+                write: new Set(),
+            };
+
+            let componentAccess;
+            for ([, componentAccess] of this.getDataFields(systemInfo)) {
+                switch (componentAccess[access].type) {
+                    case EAccess.READ:
+                    case EAccess.READ_OPTIONAL:
+                    case EAccess.ADDED:
+                    case EAccess.CHANGED:
+                    case EAccess.REMOVED: {
+                        systemAccess.read.add(componentAccess[access].component);
+                        break;
+                    }
+                    case EAccess.WRITE:
+                    case EAccess.WRITE_OPTIONAL: {
+                        systemAccess.write.add(componentAccess[access].component);
+                        break;
+                    }
+                }
+            }
+
+            this.systemAccess.set(systemInfo, systemAccess);
+        }
+
+        return systemAccess;
+    }
+
+    /**
+     * Hash of all entities, components and resources (except for systems)
+     */
+    protected hashState(): number {
+        return hashState(this.entityInfos.keys(), Array.from(this.resources.values())
+            .filter(resource => !this.systemInfos.has(resource as ISystem<TSystemData>)));
+    }
+
+    hasResource<T extends Object>(type: TTypeProto<T>): boolean {
+        return this.resources.has(type);
+    }
+
+    protected hasAccessConflict(systemInfoA: TSystemInfo<TSystemData>, systemInfoB: TSystemInfo<TSystemData>): boolean {
+        return hasConflict(this.getSystemAccess(systemInfoA), this.getSystemAccess(systemInfoB))
+            || hasConflict(this.eventAccess.get(systemInfoA) as TSystemAccess, this.eventAccess.get(systemInfoB) as TSystemAccess);
+    }
+
+    /**
+     * Remember an entity as related to all targets of a relation component
+     * @param entity
+     * @param component
+     */
+    protected indexRelation(entity: IEntity, component: Object): void {
+        if (!(component instanceof Relation)) return;
+
+        let target;
+
+        for (target of component.targets) {
+            this.indexRelationTarget(entity, target);
+        }
+
+        // targets, which are changed in place, are picked up right away
+        component.targets.onChange = (target, added) => added
+            ? this.indexRelationTarget(entity, target)
+            : this.relatedEntities.get(target)?.delete(entity);
+    }
+
+    /**
+     * Remember an entity as related to a single target
+     * @param entity
+     * @param target
+     */
+    protected indexRelationTarget(entity: IEntity, target: IEntity): void {
+        let related = this.relatedEntities.get(target);
+
+        if (!related) {
+            related = new Set();
+            this.relatedEntities.set(target, related);
+        }
+
+        related.add(entity);
+    }
+
     // todo: add parameter which only maintains for a specific state
     maintain(): void {
+        let archetype;
+        let component;
+        let entity;
         let entityInfo;
         let systemInfo;
-        let usableEntities;
+
+        this.relatedEntities.clear();
+
+        for (entityInfo of this.entityInfos.values()) {
+            entityInfo.usage.clear();
+
+            for (component of entityInfo.components.values()) {
+                this.indexRelation(entityInfo.entity, component);
+            }
+        }
 
         for (systemInfo of this.systemInfos.values()) {
             systemInfo.dataSet.clear();
-            usableEntities = new Set<IEntity>();
-            for (entityInfo of this.entityInfos.values()) {
-                World.assignEntityToSystem(systemInfo, entityInfo);
+
+            for (archetype of this.archetypes.values()) {
+                if (!archetype.canBeUsedBy(systemInfo.system)) continue;
+
+                for (entity of archetype.entities) {
+                    this.assignEntityToSystem(systemInfo, this.entityInfos.get(entity) as TEntityInfo);
+                }
+            }
+        }
+    }
+
+    /**
+     * Set all fields of a data object according to the current components of an entity
+     * @param dataObj
+     * @param systemInfo
+     * @param entityInfo
+     */
+    protected fillDataObject<T extends TSystemData>(dataObj: T, systemInfo: TSystemInfo<T>, entityInfo: TEntityInfo): void {
+        const entity = entityInfo.entity;
+        let component: TObjectProto;
+        let field;
+        let fieldAccess;
+
+        for ([field, fieldAccess] of this.getDataFields(systemInfo)) {
+            component = fieldAccess[access].component;
+
+            switch (fieldAccess[access].type) {
+                case EAccess.META: {
+                    Object.defineProperty(dataObj, field, {
+                        configurable: true,
+                        enumerable: true,
+                        value: component == Entity ? entity : undefined,
+                    });
+                    break;
+                }
+                case EAccess.WRITE:
+                case EAccess.WRITE_OPTIONAL: {
+                    const value = entity.getComponent(component);
+                    const writeComponent = component;
+
+                    // accessing a writable component counts as changing it
+                    Object.defineProperty(dataObj, field, {
+                        configurable: true,
+                        enumerable: true,
+                        get: () => {
+                            const ticks = entityInfo.changeTicks.get(writeComponent);
+
+                            if (ticks) {
+                                ticks.changed = systemInfo.runTick;
+                            }
+
+                            return value;
+                        },
+                    });
+                    break;
+                }
+                default: {
+                    Object.defineProperty(dataObj, field, {
+                        configurable: true,
+                        enumerable: true,
+                        value: entity.getComponent(component),
+                    });
+                }
             }
         }
+    }
+
+    /**
+     * Check the interval and the predicate of the run criteria of a system
+     * @param systemInfo
+     * @param tick
+     */
+    protected meetsRunCriteria(systemInfo: TSystemInfo<TSystemData>, tick: number): boolean {
+        const criteria = systemInfo.runCriteria;
 
-        this.dirty = false;
+        return (!criteria.interval || tick % criteria.interval == 0)
+            && (!criteria.predicate || criteria.predicate(this.systemActions.get(systemInfo) as ISystemActions));
     }
 
     merge(elsewhere: IWorld) {
@@ -254,66 +783,218 @@ export class World implements IWorld {
         }
     }
 
+    protected notifyComponentObservers(observers: Map<TObjectProto, Set<TComponentObserver<Object>>>, entity: IEntity, component: Object) {
+        const componentObservers = observers.get(component.constructor as TObjectProto);
+
+        if (componentObservers) {
+            for (const observer of componentObservers) {
+                observer(entity, component);
+            }
+        }
+    }
+
+    /**
+     * Sort the systems by their dependencies, stages and ordering constraints.
+     * Writers of an event type run before its readers, unless the other constraints require the opposite order
+     */
+    protected orderSystems(): TSystemInfo<TSystemData>[] {
+        const systemInfos = Array.from(this.systemInfos.values());
+        const dependencies = new Map(systemInfos.map(info => [info, new Set(info.dependencies)]));
+        const protoInfos = new Map(systemInfos.map(info => [info.system.constructor as TSystemProto<TSystemData>, info]));
+        const getProto = (info: TSystemInfo<TSystemData>) => info.system.constructor as TSystemProto<TSystemData>;
+        const resolve = (ref: TSystemRef, systemInfo: TSystemInfo<TSystemData>): TSystemInfo<TSystemData>[] => {
+            if (typeof ref == 'string') {
+                const labeled = systemInfos.filter(info => info.labels.has(ref) && info != systemInfo);
+
+                if (labeled.length == 0) {
+                    throw new Error(`The label "${ref}" used by the system ${systemInfo.system.constructor.name} is not assigned to any other system!`);
+                }
+
+                return labeled;
+            }
+
+            const info = protoInfos.get(ref);
+
+            if (!info) {
+                throw new Error(`The system ${ref.name} used by the system ${systemInfo.system.constructor.name} was not registered!`);
+            }
+
+            return [info];
+        };
+        const dependsOn = (info: TSystemInfo<TSystemData>, dependency: TSystemProto<TSystemData>, visited: Set<TSystemInfo<TSystemData>> = new Set()): boolean => {
+            if (visited.has(info)) {
+                return false;
+            }
+
+            visited.add(info);
+            return Array.from(dependencies.get(info) as Set<TSystemProto<TSystemData>>).some(proto => proto == dependency
+                || (protoInfos.has(proto) && dependsOn(protoInfos.get(proto) as TSystemInfo<TSystemData>, dependency, visited)));
+        };
+        let eventType;
+        let other;
+        let otherAccess;
+        let readerAccess;
+        let ref;
+        let stage;
+        let systemInfo;
+
+        for (systemInfo of systemInfos) {
+            stage = this.stages.indexOf(systemInfo.stage);
+
+            if (stage < 0) {
+                throw new Error(`The stage "${systemInfo.stage}" of the system ${systemInfo.system.constructor.name} does not exist!`);
+            }
+
+            for (other of systemInfos) {
+                if (this.stages.indexOf(other.stage) < stage) {
+                    dependencies.get(systemInfo)?.add(getProto(other));
+                }
+            }
+
+            for (ref of systemInfo.after) {
+                for (other of resolve(ref, systemInfo)) {
+                    dependencies.get(systemInfo)?.add(getProto(other));
+                }
+            }
+
+            for (ref of systemInfo.before) {
+                for (other of resolve(ref, systemInfo)) {
+                    dependencies.get(other)?.add(getProto(systemInfo));
+                }
+            }
+        }
+
+        for ([systemInfo, readerAccess] of this.eventAccess) {
+            for (eventType of readerAccess.read) {
+                for ([other, otherAccess] of this.eventAccess) {
+                    if (
+                        other != systemInfo
+                        && otherAccess.write.has(eventType)
+                        // in a cycle, the events are read in the next iteration instead
+                        && !dependsOn(other, getProto(systemInfo))
+                    ) {
+                        dependencies.get(systemInfo)?.add(getProto(other));
+                    }
+                }
+            }
+        }
+
+        this.systemDependencies = dependencies;
+        return this.sortSystems(systemInfos.map(info => ({
+            system: info.system,
+            dependencies: Array.from(dependencies.get(info) as Set<TSystemProto<TSystemData>>),
+        }))).map(node => this.systemInfos.get(node.system) as TSystemInfo<TSystemData>);
+    }
+
     protected async popState(): Promise<void> {
         await this.pda.pop()?.deactivate(this.transitionWorld);
+        this.runExecutionPipeline = this.prepareExecutionPipeline(this.getActiveSystems());
         await this.pda.state?.activate(this.transitionWorld);
     }
 
-    // todo: improve logic which sets up the groups (tracked by #13)
-    protected prepareExecutionPipeline(state: IState): Set<TSystemInfo<TSystemData>>[] {
-        // todo: this could be further optimized by allowing systems with dependencies to run in parallel
-        //    if all of their dependencies already ran
+    protected async popToState(State: TTypeProto<IState>): Promise<void> {
+        const targetState = this.pda.states.reverse().find(state => state instanceof State);
 
-        // todo: also, if two systems depend on the same components, they may run in parallel
-        //    if they only require READ access
-        const result: Set<TSystemInfo<TSystemData>>[] = [];
-        const stateSystems = Array.from(state.systems);
-        let executionGroup: Set<TSystemInfo<TSystemData>> = new Set();
-        let shouldRunSystem;
-        let systemInfo: TSystemInfo<TSystemData>;
+        if (!targetState) {
+            throw new Error(`The state ${State.name} is not on the state stack!`);
+        }
 
-        if (this.dirty) {
-            // this line is purely to satisfy my IDE
-            this.sortedSystems = [];
-            this.maintain();
+        if (this.pda.state == targetState) {
+            return;
         }
 
+        // only the current state is deactivated, the states in-between are not activated again
+        await this.pda.state?.deactivate(this.transitionWorld);
+
+        while (this.pda.state != targetState) {
+            this.pda.pop();
+        }
+
+        this.runExecutionPipeline = this.prepareExecutionPipeline(this.getActiveSystems());
+        await targetState.activate(this.transitionWorld);
+    }
+
+    protected prepareExecutionPipeline(systems: Set<ISystem<TSystemData>>): Set<TSystemInfo<TSystemData>>[] {
+        const result: Set<TSystemInfo<TSystemData>>[] = [];
+        const stages: Map<TSystemInfo<TSystemData>, number> = new Map();
+        const stateSystems = new Set(Array.from(systems).map(system => system.constructor));
+        let otherInfo;
+        let otherStage;
+        let stage;
+        let systemInfo: TSystemInfo<TSystemData>;
+
+        // the systems are already sorted topologically, so all systems, which have to run before the current one,
+        // already got their stage assigned. A system may start right after the last stage it depends on or conflicts with.
         for (systemInfo of this.sortedSystems) {
-            shouldRunSystem = !!stateSystems.find(stateSys => stateSys.constructor.name === systemInfo.system.constructor.name);
+            // states may hold other instances of the registered systems
+            if (!stateSystems.has(systemInfo.system.constructor)) {
+                continue;
+            }
 
-            if (shouldRunSystem) {
-                if (systemInfo.dependencies.size > 0) {
-                    result.push(executionGroup);
-                    executionGroup = new Set<TSystemInfo<TSystemData>>();
+            stage = 0;
+            for ([otherInfo, otherStage] of stages) {
+                if (otherStage >= stage && (
+                    this.systemDependencies.get(systemInfo)?.has(otherInfo.system.constructor as TSystemProto<TSystemData>)
+                    || this.hasAccessConflict(systemInfo, otherInfo)
+                )) {
+                    stage = otherStage + 1;
                 }
-
-                executionGroup.add(systemInfo);
             }
+
+            stages.set(systemInfo, stage);
+            (result[stage] ||= new Set()).add(systemInfo);
         }
 
-        result.push(executionGroup);
         return result;
     }
 
-    protected async pushState(newState: IState): Promise<void> {
-        await this.pda.state?.deactivate(this.transitionWorld);
-        this.pda.push(newState);
-        if (this.runExecutionPipelineCache.has(newState)) {
-            this.runExecutionPipeline = this.runExecutionPipelineCache.get(newState) ?? [];
-        }
-        else {
-            newState.create(this.transitionWorld);
-            this.runExecutionPipeline = this.prepareExecutionPipeline(newState);
-            this.runExecutionPipelineCache.set(newState, this.runExecutionPipeline);
+    /**
+     * Add the resources of a loaded save to this world.
+     * Its state stack replaces the initial state on the next run.
+     * @param save
+     */
+    restoreFromSave(save: ISaveFormat) {
+        for (const resource of save.getResources()) {
+            if (this.resources.has(resource.constructor as TObjectProto)) {
+                this.replaceResource(resource);
+            }
+            else {
+                this.addResource(resource);
+            }
         }
 
-        await newState.activate(this.transitionWorld);
+        this.savedStates = save.getStates();
+    }
+
+    protected async pushState(newState: IState): Promise<void> {
+        await this.pda.state?.deactivate(this.transitionWorld);
+        await this.enterState(newState);
     }
 
     removeEntity(entity: IEntity): void {
-        if (this.entityInfos.has(entity)) {
-            this.entityInfos.delete(entity);
-            entity.changeWorldTo(undefined);
+        if (!this.entityInfos.has(entity)) return;
+
+        const relatedEntities = this.relatedEntities.get(entity);
+        let component;
+        let related;
+
+        this.detachEntity(entity);
+
+        // clean up relations, which point to the removed entity
+        for (related of relatedEntities ?? []) {
+            // the entity may already be gone due to a cascade
+            if (!this.entityInfos.has(related)) continue;
+
+            for (component of Array.from(related.getComponents())) {
+                if (!(component instanceof Relation) || !component.targets.has(entity)) continue;
+
+                if ((component.constructor as TRelationProto).cascadeDelete) {
+                    this.removeEntity(related);
+                    break;
+                }
+
+                component.targets.delete(entity);
+            }
         }
     }
 
@@ -321,14 +1002,13 @@ export class World implements IWorld {
         const usage = this.entityInfos.get(entity)?.usage;
         if (!usage) return;
 
-        let use;
-        for (use of usage.values()) {
-            for (const info of this.systemInfos.values()) {
-                if (info.dataSet.has(use)) {
-                    info.dataSet.delete(use);
-                }
-            }
+        let systemInfo;
+        let data;
+        for ([systemInfo, data] of usage) {
+            systemInfo.dataSet.delete(data);
         }
+
+        usage.clear();
     }
 
     replaceResource<T extends Object>(obj: T | TTypeProto<T>, ...args: unknown[]) {
@@ -357,13 +1037,255 @@ export class World implements IWorld {
         this.resources.delete(type);
     }
 
-    run(configuration?: TRunConfiguration): Promise<void> {
+    async replay(recording: TRecording, options: TReplayOptions = {}): Promise<void> {
         if (this.runPromise) {
             throw new Error('The dispatch loop is already running!');
         }
 
-        if (this.dirty) {
-            this.maintain();
+        const snapshotEntities = new Map<TEntityId, IEntity>();
+        const getSnapshotEntity = (id: TEntityId) => snapshotEntities.get(id);
+        let action;
+        let component;
+        let dropIds;
+        let entity;
+        let frame;
+        let state;
+        let i;
+
+        // the entities of the recording belong to the recorded world, so the replay restores copies with the same ids
+        for (entity of recording.snapshot.entities.keys()) {
+            snapshotEntities.set(entity.id, new Entity(undefined, entity.id));
+        }
+
+        this.restore({
+            entities: new Map(Array.from(recording.snapshot.entities, ([entity, components]) => [
+                getSnapshotEntity(entity.id) as IEntity,
+                components.map(component => deepFreeze(this.copyRecordedComponent(component, getSnapshotEntity))),
+            ])),
+            resources: recording.snapshot.resources,
+        });
+        this.pda.clear();
+
+        // the lifecycle of the states ran before the snapshot was taken
+        for (state of recording.states) {
+            this.pda.push(state);
+        }
+
+        for (const systemInfo of this.systemInfos.values()) {
+            systemInfo.system.setup(this.systemActions.get(systemInfo) as ISystemActions);
+            systemInfo.worker?.start();
+        }
+
+        // the event access of the systems is known after their setup
+        this.sortedSystems = this.orderSystems();
+
+        this.runExecutionPipeline = this.prepareExecutionPipeline(this.getActiveSystems());
+
+        try {
+            for (i = 0; i < recording.frames.length; i++) {
+                frame = recording.frames[i];
+                this.getResource(Time).alpha = frame.alpha;
+
+                // systems have to create their entities with the same ids as during the recording
+                dropIds = Entity.queueIds(frame.entityIds);
+                try {
+                    await this.runIteration(frame.delta);
+                }
+                finally {
+                    dropIds();
+                }
+
+                for (action of frame.actions) {
+                    switch (action.action) {
+                        case 'addEntity': {
+                            entity = new Entity(undefined, action.id);
+
+                            for (component of action.components) {
+                                // relations must point to the entities of this run
+                                entity.addComponent(this.copyRecordedComponent(component, id => this.getEntityById(id)));
+                            }
+
+                            this.addEntity(entity);
+                            break;
+                        }
+                        case 'addResource': this.addResource(deepCopy(action.resource)); break;
+                        case 'clearAndPush': await this.clearAndPush(action.state); break;
+                        case 'popState': await this.popState(); break;
+                        case 'popToState': await this.popToState(action.type); break;
+                        case 'pushState': await this.pushState(action.state); break;
+                        case 'removeEntity': {
+                            entity = this.getEntityById(action.id);
+                            entity && this.removeEntity(entity);
+                            break;
+                        }
+                        case 'removeResource': this.removeResource(action.type); break;
+                        case 'replaceResource': this.replaceResource(deepCopy(action.resource)); break;
+                        case 'switchState': await this.switchState(action.state); break;
+                    }
+                }
+
+                if (options.verify && this.hashState() != frame.hash) {
+                    throw new Error(`The replay diverged from the recording in frame ${i}!`);
+                }
+            }
+        }
+        finally {
+            for (const systemInfo of this.systemInfos.values()) {
+                await systemInfo.worker?.terminate();
+            }
+
+            this.createdStates.clear();
+        }
+    }
+
+    /**
+     * Reset the world to the state of a snapshot.
+     * Entities, components and resources are changed in place where possible, so that references to them stay valid.
+     * @param snapshot
+     */
+    restore(snapshot: TSnapshot): void {
+        let component;
+        let components;
+        let entity;
+        let entityInfo;
+        let live;
+        let resource;
+        let restored;
+        let tick;
+        let ticks;
+        let type;
+
+        for (entity of Array.from(this.entityInfos.keys())) {
+            if (!snapshot.entities.has(entity)) {
+                // the snapshot describes the whole world, so relations must not cascade
+                this.detachEntity(entity);
+            }
+        }
+
+        for ([entity, components] of snapshot.entities) {
+            const types = new Set(components.map(component => component.constructor));
+
+            for (component of Array.from(entity.getComponents())) {
+                if (!types.has(component.constructor)) {
+                    entity.removeComponent(component);
+                }
+            }
+
+            for (component of components) {
+                live = entity.getComponent(component.constructor as TObjectProto);
+                restored = this.restoreObject(component, live);
+
+                if (restored !== live) {
+                    live && entity.removeComponent(live);
+                    entity.addComponent(restored);
+                }
+            }
+
+            this.addEntity(entity);
+
+            // the restored data counts as changed, so that change detection picks up the rolled back values
+            entityInfo = this.entityInfos.get(entity) as TEntityInfo;
+            tick = ++this.changeTick;
+
+            for ([type, ticks] of entityInfo.changeTicks) {
+                component = entity.getComponent(type) as Object;
+                ticks.changed = tick;
+                entityInfo.components.set(type, component);
+                this.indexRelation(entity, component);
+            }
+        }
+
+        for ([type, resource] of Array.from(this.resources)) {
+            if (!snapshot.resources.has(type) && !this.systemInfos.has(resource as ISystem<TSystemData>)) {
+                this.resources.delete(type);
+            }
+        }
+
+        for ([type, resource] of snapshot.resources) {
+            this.resources.set(type, this.restoreObject(resource, this.resources.get(type)));
+        }
+
+        // pending events belong to the discarded timeline
+        for (const channel of this.eventChannels.values()) {
+            channel.clear();
+        }
+    }
+
+    /**
+     * Returns the live object, if it could be restored in place, or a new copy otherwise
+     * @param copy
+     * @param live
+     */
+    protected restoreObject(copy: Object, live?: Object): Object {
+        // objects with a registered serializer are always re-created, since their internals are unknown
+        let obj = this.saveFormat?.clone(copy);
+
+        if (!obj) {
+            obj = live && restoreInPlace(live, copy)
+                ? live
+                : deepCopy(copy);
+        }
+
+        this.snapshotCopies.set(obj, copy);
+        return obj;
+    }
+
+    /**
+     * Run all systems of the current execution pipeline once and apply their commands
+     * @param delta
+     */
+    protected async runIteration(delta: number): Promise<void> {
+        const time = this.getResource(Time);
+        let dataSet;
+        let executionGroup;
+        let runningSystems;
+        let systemInfo;
+        let systemPromises;
+
+        time.delta = delta;
+        time.elapsed += delta;
+        time.tick++;
+
+        for (const channel of this.eventChannels.values()) {
+            channel.swap();
+        }
+
+        for (executionGroup of this.runExecutionPipeline) {
+            runningSystems = [];
+            systemPromises = [];
+            for (systemInfo of executionGroup) {
+                if (!this.meetsRunCriteria(systemInfo, time.tick)) {
+                    continue;
+                }
+
+                dataSet = this.getChangedData(systemInfo);
+
+                if (systemInfo.runCriteria.skipWhenEmpty && dataSet.size == 0) {
+                    continue;
+                }
+
+                systemInfo.runTick = ++this.changeTick;
+                runningSystems.push(systemInfo);
+                systemPromises.push(systemInfo.worker
+                    ? systemInfo.worker.run(dataSet)
+                    : systemInfo.system.run(dataSet));
+            }
+
+            await Promise.all(systemPromises);
+
+            // skipped systems keep their last run tick, so that they see all changes once they run again
+            for (systemInfo of runningSystems) {
+                systemInfo.lastRunTick = systemInfo.runTick;
+            }
+        }
+
+        this.applyCommands();
+        await this.applyTransitions();
+    }
+
+    run(configuration?: TRunConfiguration): Promise<void> {
+        if (this.runPromise) {
+            throw new Error('The dispatch loop is already running!');
         }
 
         configuration ||= {};
@@ -371,65 +1293,209 @@ export class World implements IWorld {
 
         const initialState = configuration.initialState;
         const runConfig: TStaticRunConfiguration = {
+            fixedTimestep: configuration.fixedTimestep,
             initialState,
+            maxCatchUpSteps: configuration.maxCatchUpSteps ?? 5,
             transitionHandler: configuration.transitionHandler ?? (async _action => {}),
         };
 
+        if (runConfig.fixedTimestep !== undefined && runConfig.fixedTimestep <= 0) {
+            throw new Error('The fixed timestep must be greater than zero!');
+        }
+
         this.pda.clear();
         this.shouldRunSystems = true;
 
-        for (const system of this.systemInfos.keys()) {
-            system.setup(this.systemWorld);
+        for (const systemInfo of this.systemInfos.values()) {
+            systemInfo.system.setup(this.systemActions.get(systemInfo) as ISystemActions);
+            systemInfo.worker?.start();
         }
 
+        // the event access of the systems is known after their setup
+        this.sortedSystems = this.orderSystems();
+
         this.runPromise = new Promise(async resolver => {
-            await this.pushState(initialState);
+            if (this.savedStates?.length) {
+                for (const state of this.savedStates) {
+                    await this.pushState(state);
+                }
 
-            const execAsync = typeof requestAnimationFrame == 'function'
-                ? requestAnimationFrame
-                : setTimeout;
-            let executionGroup;
-            this.runExecutionPipeline = this.prepareExecutionPipeline(this.pda.state ?? initialState);
-            let systemInfo;
-            let systemPromises;
+                this.savedStates = undefined;
+            }
+            else {
+                await this.pushState(initialState);
+            }
+
+            const useAnimationFrame = typeof requestAnimationFrame == 'function';
+            const execAsync = (delay: number) => useAnimationFrame
+                ? requestAnimationFrame(mainLoop)
+                : setTimeout(mainLoop, delay * 1000);
+            const now = () => (typeof performance == 'object' ? performance.now() : Date.now()) / 1000;
+            const time = this.getResource(Time);
+            const recorder = configuration?.recorder;
+            const transitionActions = recorder?.recordActions(this.transitionWorld) ?? this.transitionWorld;
+            let accumulator = 0;
+            let lastFrameTime = now();
+            this.runExecutionPipeline = this.prepareExecutionPipeline(this.getActiveSystems());
+            let steps;
+
+            time.reset();
+            recorder?.start(this.snapshot(), this.pda.states);
 
             const cleanUp = async () => {
                 await this.pda.state?.deactivate(this.transitionWorld);
-                for (const state of this.runExecutionPipelineCache.keys()) {
+                for (const state of this.createdStates) {
                     await state.destroy(this.transitionWorld);
                 }
 
-                this.runExecutionPipelineCache.clear();
+                for (const systemInfo of this.systemInfos.values()) {
+                    await systemInfo.worker?.terminate();
+                }
+
+                this.createdStates.clear();
                 this.runPromise = undefined;
                 resolver();
             };
 
+            const iterate = async (delta: number) => {
+                // the ids of entities created by the transition handler are part of its recorded actions
+                const collectIds = recorder && Entity.collectIds();
+                let entityIds: TEntityId[] = [];
+
+                recorder?.startFrame(delta, time.alpha);
+                try {
+                    await this.runIteration(delta);
+                }
+                finally {
+                    entityIds = collectIds?.() ?? [];
+                }
+
+                await runConfig.transitionHandler(transitionActions);
+                recorder?.endFrame(this.hashState(), entityIds);
+            };
+
             const mainLoop = async () => {
                 if (!this.shouldRunSystems) {
                     await cleanUp();
                     return;
                 }
 
-                for (executionGroup of this.runExecutionPipeline) {
-                    systemPromises = [];
-                    for (systemInfo of executionGroup) {
-                        systemPromises.push(systemInfo.system.run(systemInfo.dataSet));
+                const frameTime = now();
+                const frameDelta = frameTime - lastFrameTime;
+                lastFrameTime = frameTime;
+
+                if (runConfig.fixedTimestep === undefined) {
+                    await iterate(frameDelta);
+                    execAsync(0);
+                    return;
+                }
+
+                accumulator += frameDelta;
+                steps = 0;
+
+                while (accumulator >= runConfig.fixedTimestep && this.shouldRunSystems) {
+                    if (steps >= runConfig.maxCatchUpSteps) {
+                        // drop the time we cannot catch up with, instead of spiraling into ever longer frames
+                        accumulator %= runConfig.fixedTimestep;
+                        break;
                     }
 
-                    await Promise.all(systemPromises);
+                    await iterate(runConfig.fixedTimestep);
+                    accumulator -= runConfig.fixedTimestep;
+                    steps++;
                 }
 
-                await runConfig.transitionHandler(this.transitionWorld);
-                execAsync(mainLoop);
+                time.alpha = accumulator / runConfig.fixedTimestep;
+                execAsync(this.shouldRunSystems ? runConfig.fixedTimestep - accumulator : 0);
             }
 
-            execAsync(mainLoop);
+            execAsync(0);
         });
 
         return this.runPromise;
     }
 
-    setSaveFormat(saveFormat: ISaveFormat) {
+    async loadFromStream(stream: Readable, deserializer?: TDeserializer): Promise<void> {
+        const save = this.saveFormat ?? new BinarySaveFormat();
+
+        for await (const entity of save.getEntitiesFromStream(stream, deserializer, id => this.getEntityById(id))) {
+            this.addEntity(entity);
+        }
+
+        this.restoreFromSave(save);
+    }
+
+    async saveToStream(stream: Writable, serializer?: TSerializer, options: TSaveOptions = {}): Promise<void> {
+        const save = this.saveFormat ?? new BinarySaveFormat();
+
+        save.setResources(options.resources ? this.resources.values() : undefined, serializer);
+        save.setStates(options.states ? this.pda.states : undefined);
+
+        await save.writeToStream(stream, this.entityInfos.keys(), serializer);
+    }
+
+    /**
+     * Copy the current state of all entities, components and resources (except for systems).
+     * Unchanged objects share their copy with the previous snapshot.
+     * Components count as unchanged, if their change tick is older than the previous snapshot,
+     * and resources, if they are equal to their previous copy
+     */
+    snapshot(): TSnapshot {
+        const entities = new Map<IEntity, ReadonlyArray<Object>>();
+        const lastSnapshotTick = this.snapshotTick;
+        const resources = new Map<TObjectProto, Object>();
+        let entity;
+        let entityInfo: TEntityInfo;
+        let resource: Object;
+        let type;
+
+        this.snapshotTick = ++this.changeTick;
+
+        for ([entity, entityInfo] of this.entityInfos) {
+            entities.set(entity, Object.freeze(Array.from(entity.getComponents()).map(component => this.snapshotCopy(
+                component,
+                () => (entityInfo.changeTicks.get(component.constructor as TObjectProto)?.changed ?? Infinity) < lastSnapshotTick,
+            ))));
+        }
+
+        for ([type, resource] of this.resources) {
+            if (!this.systemInfos.has(resource as ISystem<TSystemData>)) {
+                resources.set(type, this.snapshotCopy(resource, previous => deepEqual(resource, previous)));
+            }
+        }
+
+        return Object.freeze({
+            entities,
+            resources,
+        });
+    }
+
+    /**
+     * Returns the copy of the previous snapshot, if the object is unchanged, or a new frozen copy otherwise
+     * @param obj
+     * @param isUnchanged
+     */
+    protected snapshotCopy(obj: Object, isUnchanged: (previous: Object) => boolean): Object {
+        const previous = this.snapshotCopies.get(obj);
+
+        if (previous && isUnchanged(previous)) {
+            return previous;
+        }
+
+        const copy = deepFreeze(this.saveFormat?.clone(obj) ?? deepCopy(obj));
+        this.snapshotCopies.set(obj, copy);
+        return copy;
+    }
+
+    setObservers(observers: TObservers) {
+        this.observers = observers;
+    }
+
+    setPrefabs(prefabs: Map<string, TPrefab>) {
+        this.prefabs = prefabs;
+    }
+
+    setSaveFormat(saveFormat: IBinarySaveFormat) {
         this.saveFormat = saveFormat;
     }
 
@@ -464,8 +1530,24 @@ export class World implements IWorld {
             }
         }
 
-        if (Array.from(graph.values()).find(n => n.length > 0)) {
-            throw new Error('The system dependency graph is cyclic!');
+        const remaining = Array.from(graph.entries()).find(pair => pair[1].length > 0);
+
+        if (remaining) {
+            // all systems, which could not be sorted, depend on another one of them, so following the dependencies leads into a cycle
+            const path: TSystemProto<TSystemData>[] = [];
+            let node: TSystemProto<TSystemData> | undefined = remaining[0];
+
+            while (node && !path.includes(node)) {
+                path.push(node);
+                node = (graph.get(node) as TSystemProto<TSystemData>[]).find(dependency => graph.has(dependency));
+            }
+
+            if (!node) {
+                throw new Error(`The system ${path[path.length - 1].name} depends on a system, which was not registered!`);
+            }
+
+            // print the cycle in the order the systems would have to run in
+            throw new Error(`The system dependency graph is cyclic: ${path.slice(path.indexOf(node)).concat(node).reverse().map(proto => proto.name).join(' -> ')}!`);
         }
 
         let obj;
@@ -484,19 +1566,110 @@ export class World implements IWorld {
         this.shouldRunSystems = false;
     }
 
-    toJSON(serializer?: TSerializer): string {
-        let save;
+    protected async switchState(newState: IState): Promise<void> {
+        await this.pda.pop()?.deactivate(this.transitionWorld);
+        await this.enterState(newState);
+    }
+
+    protected prepareSave(serializer?: TSerializer, options: TSaveOptions = {}): IBinarySaveFormat {
+        const save = this.saveFormat ?? new BinarySaveFormat();
+
+        save.setEntities(this.entityInfos.keys());
+        save.setResources(options.resources ? this.resources.values() : undefined, serializer);
+        save.setStates(options.states ? this.pda.states : undefined);
+
+        return save;
+    }
+
+    toBinary(serializer?: TSerializer, options?: TSaveOptions): Uint8Array {
+        return this.prepareSave(serializer, options).toBinary(serializer);
+    }
+
+    toJSON(serializer?: TSerializer, options?: TSaveOptions): string {
+        return this.prepareSave(serializer, options).toJSON(serializer);
+    }
 
-        if (this.saveFormat) {
-            save = this.saveFormat;
-            save.setEntities(this.entityInfos.keys());
+    /**
+     * Forget an entity as related to the targets of a relation component
+     * @param entity
+     * @param component
+     */
+    protected unindexRelation(entity: IEntity, component: Object): void {
+        if (!(component instanceof Relation)) return;
+
+        component.targets.onChange = undefined;
+
+        for (const target of component.targets) {
+            this.relatedEntities.get(target)?.delete(entity);
         }
-        else {
-            save = new SaveFormat({
-                entities: this.entityInfos.keys(),
-            });
+    }
+
+    protected updateEntity(entity: IEntity): void {
+        const entityInfo = this.entityInfos.get(entity);
+        if (!entityInfo) return;
+
+        const archetype = this.getArchetype(Archetype.getComponentTypes(entity));
+        if (archetype == entityInfo.archetype) return;
+
+        const addedComponents: Object[] = [];
+        const removedComponents: Object[] = [];
+        const tick = ++this.changeTick;
+        let component;
+        let instance;
+
+        for (component of archetype.components) {
+            if (!entityInfo.archetype.components.has(component)) {
+                instance = entity.getComponent(component) as Object;
+                addedComponents.push(instance);
+                this.indexRelation(entity, instance);
+                entityInfo.changeTicks.set(component, { added: tick, changed: tick });
+                entityInfo.components.set(component, instance);
+                entityInfo.removedTicks.delete(component);
+            }
+        }
+
+        for (component of entityInfo.archetype.components) {
+            if (!archetype.components.has(component)) {
+                instance = entityInfo.components.get(component) as Object;
+                removedComponents.push(instance);
+                this.unindexRelation(entity, instance);
+                entityInfo.changeTicks.delete(component);
+                entityInfo.components.delete(component);
+                entityInfo.removedTicks.set(component, tick);
+            }
+        }
+
+        entityInfo.archetype.entities.delete(entity);
+        archetype.entities.add(entity);
+        entityInfo.archetype = archetype;
+
+        // only touch the systems, which use the entity
+        let data;
+        let systemInfo;
+        for (systemInfo of this.systemInfos.values()) {
+            data = entityInfo.usage.get(systemInfo);
+
+            if (archetype.canBeUsedBy(systemInfo.system)) {
+                if (data) {
+                    // optional components may have been added or removed
+                    this.fillDataObject(data, systemInfo, entityInfo);
+                }
+                else {
+                    this.assignEntityToSystem(systemInfo, entityInfo);
+                }
+            }
+            else if (data) {
+                systemInfo.dataSet.delete(data);
+                entityInfo.usage.delete(systemInfo);
+            }
         }
 
-        return save.toJSON();
+        for (instance of removedComponents) {
+            this.notifyComponentObservers(this.observers.componentRemoved, entity, instance);
+        }
+
+        for (instance of addedComponents) {
+            this.notifyComponentObservers(this.observers.componentAdded, entity, instance);
+        }
     }
 }